@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { OcrJobResponse } from "@shared/schema";
+import { DEFAULT_LOW_CONFIDENCE_THRESHOLD, getPageConfidence, isLowConfidence } from "@shared/ocr-document";
+
+const CONFIDENCE_THRESHOLD_KEY = "ocr-confidence-threshold";
+const CONFIDENCE_THRESHOLDS = [0.5, 0.7, 0.8, 0.9, 0.95];
+
+interface PageViewerProps {
+  jobId: string;
+  pageNumber: number;
+  imageUrl: string;
+}
+
+// A flagged word, by line and word index on the page
+interface WordPosition {
+  line: number;
+  word: number;
+}
+
+// "x1,y1 x2,y2 ..." for an SVG polygon, or null when the line has no geometry
+function toPoints(polygon: number[]): string | null {
+  if (polygon.length < 8) return null;
+  const points: string[] = [];
+  for (let i = 0; i + 1 < polygon.length; i += 2) {
+    points.push(`${polygon[i]},${polygon[i + 1]}`);
+  }
+  return points.join(" ");
+}
+
+function getStoredThreshold(): number {
+  const stored = Number(localStorage.getItem(CONFIDENCE_THRESHOLD_KEY));
+  return CONFIDENCE_THRESHOLDS.includes(stored) ? stored : DEFAULT_LOW_CONFIDENCE_THRESHOLD;
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// A source page next to its extracted lines. Hovering a line highlights its
+// box on the page and the other way round, so text can be checked against the scan.
+// Words recognised with low confidence are underlined and can be stepped through.
+export function PageViewer({ jobId, pageNumber, imageUrl }: PageViewerProps) {
+  const [hoveredLine, setHoveredLine] = useState<number | null>(null);
+  const [threshold, setThreshold] = useState(getStoredThreshold);
+  // Index into lowWords of the word being reviewed
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+  const lineRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const wordRefs = useRef(new Map<string, HTMLSpanElement>());
+
+  // The line geometry is only included in the structured result
+  const { data: job, isLoading, error } = useQuery<OcrJobResponse>({
+    queryKey: [`/api/jobs/${jobId}?format=json`],
+  });
+  const page = job?.document?.pages.find((item) => item.pageNumber === pageNumber);
+
+  const lowWords: WordPosition[] = [];
+  page?.lines.forEach((line, lineIndex) => {
+    line.words.forEach((word, wordIndex) => {
+      if (isLowConfidence(word, threshold)) lowWords.push({ line: lineIndex, word: wordIndex });
+    });
+  });
+  const reviewed = reviewIndex !== null ? lowWords[reviewIndex] : undefined;
+  const confidence = page ? getPageConfidence(page) : null;
+
+  useEffect(() => {
+    setHoveredLine(null);
+    setReviewIndex(null);
+  }, [jobId, pageNumber, threshold]);
+
+  const hoverBox = (index: number | null) => {
+    setHoveredLine(index);
+    if (index !== null) {
+      lineRefs.current[index]?.scrollIntoView({ block: "nearest" });
+    }
+  };
+
+  const changeThreshold = (value: string) => {
+    localStorage.setItem(CONFIDENCE_THRESHOLD_KEY, value);
+    setThreshold(Number(value));
+  };
+
+  // Step to the next or previous flagged word, wrapping around the page
+  const reviewWord = (step: 1 | -1) => {
+    if (lowWords.length === 0) return;
+    const start = step === 1 ? -1 : lowWords.length;
+    const next = ((reviewIndex ?? start) + step + lowWords.length) % lowWords.length;
+    setReviewIndex(next);
+    const { line, word } = lowWords[next];
+    wordRefs.current.get(`${line}-${word}`)?.scrollIntoView({ block: "nearest" });
+  };
+
+  const hasGeometry = page?.lines.some((line) => toPoints(line.polygon)) ?? false;
+
+  return (
+    <div className="space-y-3" data-testid="page-viewer">
+      {page && confidence !== null && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground" data-testid="text-page-confidence">
+            {formatPercent(confidence)} average confidence · {lowWords.length} word(s) below {formatPercent(threshold)}
+          </span>
+          <Select value={String(threshold)} onValueChange={changeThreshold}>
+            <SelectTrigger className="h-8 w-36" data-testid="select-confidence-threshold">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONFIDENCE_THRESHOLDS.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  Flag below {formatPercent(value)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="ml-auto flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => reviewWord(-1)}
+              disabled={lowWords.length === 0}
+              aria-label="Previous low-confidence word"
+              data-testid="button-previous-low-confidence"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-xs text-muted-foreground" data-testid="text-low-confidence-position">
+              {reviewIndex !== null ? `${reviewIndex + 1} of ${lowWords.length}` : "Review"}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => reviewWord(1)}
+              disabled={lowWords.length === 0}
+              data-testid="button-next-low-confidence"
+            >
+              Next low-confidence word
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="relative self-start overflow-hidden rounded-md border bg-white">
+          <img src={imageUrl} alt={`Page ${pageNumber}`} className="block w-full" data-testid="img-page-source" />
+          {page && page.width > 0 && page.height > 0 && (
+            <svg
+              className="absolute inset-0 h-full w-full"
+              viewBox={`0 0 ${page.width} ${page.height}`}
+              preserveAspectRatio="none"
+            >
+              {page.lines.map((line, i) => {
+                const points = toPoints(line.polygon);
+                if (!points) return null;
+                const hovered = hoveredLine === i;
+                return (
+                  <polygon
+                    key={i}
+                    points={points}
+                    vectorEffect="non-scaling-stroke"
+                    className={
+                      hovered
+                        ? "fill-yellow-300/40 stroke-yellow-500 stroke-2"
+                        : "fill-transparent stroke-primary/30 hover:fill-primary/10"
+                    }
+                    onMouseEnter={() => hoverBox(i)}
+                    onMouseLeave={() => setHoveredLine(null)}
+                    data-testid={`box-line-${i}`}
+                  />
+                );
+              })}
+              {lowWords.map(({ line, word }, i) => {
+                const points = toPoints(page.lines[line].words[word].polygon);
+                if (!points) return null;
+                return (
+                  <polygon
+                    key={`${line}-${word}`}
+                    points={points}
+                    vectorEffect="non-scaling-stroke"
+                    className={
+                      reviewIndex === i
+                        ? "pointer-events-none fill-orange-400/50 stroke-orange-600 stroke-2"
+                        : "pointer-events-none fill-orange-300/20 stroke-orange-400"
+                    }
+                    data-testid={`box-low-confidence-${line}-${word}`}
+                  />
+                );
+              })}
+            </svg>
+          )}
+        </div>
+        <div className="max-h-[700px] overflow-auto rounded-md bg-muted/50 p-2 font-mono text-sm leading-relaxed">
+          {isLoading && (
+            <div className="flex items-center gap-2 p-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading page layout...
+            </div>
+          )}
+          {error && <p className="p-2 text-destructive">Could not load the page layout</p>}
+          {page && !hasGeometry && (
+            <p className="p-2 text-xs text-muted-foreground" data-testid="text-no-geometry">
+              This page's text has no positions (e.g. it came from the PDF's embedded text), so nothing is highlighted.
+            </p>
+          )}
+          {page?.lines.map((line, i) => (
+            <div
+              key={i}
+              ref={(element) => {
+                lineRefs.current[i] = element;
+              }}
+              className={`whitespace-pre-wrap rounded px-2 py-0.5 ${hoveredLine === i ? "bg-yellow-200 dark:bg-yellow-900" : ""}`}
+              onMouseEnter={() => setHoveredLine(i)}
+              onMouseLeave={() => setHoveredLine(null)}
+              data-testid={`text-line-${i}`}
+            >
+              {line.words.length === 0
+                ? line.text
+                : line.words.map((word, j) => {
+                    const low = isLowConfidence(word, threshold);
+                    const current = reviewed?.line === i && reviewed.word === j;
+                    return (
+                      <span key={j}>
+                        {j > 0 && " "}
+                        <span
+                          ref={(element) => {
+                            if (element) wordRefs.current.set(`${i}-${j}`, element);
+                            else wordRefs.current.delete(`${i}-${j}`);
+                          }}
+                          className={
+                            low
+                              ? `underline decoration-orange-500 decoration-wavy underline-offset-4 ${
+                                  current ? "rounded bg-orange-200 dark:bg-orange-900" : ""
+                                }`
+                              : undefined
+                          }
+                          title={low ? `${formatPercent(word.confidence)} confidence` : undefined}
+                          data-testid={low ? `text-low-confidence-${i}-${j}` : undefined}
+                        >
+                          {word.text}
+                        </span>
+                      </span>
+                    );
+                  })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  DEFAULT_OCR_SETTINGS,
+  type OcrBatchResponse,
+  type OcrJobEvent,
+  type OcrJobResponse,
+  type OcrSettings,
+  type PreprocessStep,
+} from "@shared/schema";
+import {
+  forgetUpload,
+  getPendingUploads,
+  uploadResumable,
+  RESUMABLE_UPLOAD_THRESHOLD,
+  type PendingUpload,
+} from "@/lib/resumable-upload";
+
+const ACTIVE_JOBS_KEY = "ocr-active-jobs";
+// Files uploading or being watched at once; each watched job holds an SSE connection
+const MAX_ACTIVE_ITEMS = 3;
+const BATCH_POLL_INTERVAL = 3000;
+
+export type UploadedFile = Pick<File, "name" | "size" | "type">;
+
+export interface OcrUploadOptions extends OcrSettings {
+  searchablePdf: boolean;
+  forceOcr: boolean;
+  preprocess: PreprocessStep[];
+  pages: string; // page range such as "1-3,7,10-"; empty for every page
+}
+
+// Items resumed after a reload were submitted already, so their options are never sent
+const RESUMED_ITEM_OPTIONS: OcrUploadOptions = {
+  ...DEFAULT_OCR_SETTINGS,
+  searchablePdf: false,
+  forceOcr: false,
+  preprocess: [],
+  pages: "",
+};
+
+export type QueueItemStatus = "waiting" | "uploading" | "processing" | "succeeded" | "failed";
+
+export interface QueueItem {
+  id: string;
+  file: UploadedFile;
+  options: OcrUploadOptions;
+  status: QueueItemStatus;
+  progress: number;
+  statusText: string;
+  jobId: string | null;
+  // Page text received so far while the job runs
+  pageTexts: string[];
+  job: OcrJobResponse | null;
+  // ZIP uploads become a batch of jobs instead of a single job
+  batchId: string | null;
+  batch: OcrBatchResponse | null;
+  error: string | null;
+}
+
+// A submitted upload: one job, or a batch for ZIP archives
+type Submission = { jobId: string; batchId?: undefined } | { jobId?: undefined; batchId: string };
+
+type ActiveJob = Submission & { file: UploadedFile };
+
+export function isActive(item: QueueItem): boolean {
+  return item.status === "uploading" || item.status === "processing";
+}
+
+// Text to show for an item: the final result (with the user's corrections),
+// or the pages received so far
+export function getItemText(item: QueueItem): string {
+  return item.job?.correctedText ?? item.job?.text ?? item.pageTexts.filter(Boolean).join("\n\n");
+}
+
+// Follow a queued OCR job over Server-Sent Events until the worker finishes it
+function watchJob(jobId: string, onEvent: (event: OcrJobEvent) => void): Promise<OcrJobResponse> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`, { withCredentials: true });
+
+    source.onmessage = (message) => {
+      const event: OcrJobEvent = JSON.parse(message.data);
+      onEvent(event);
+      if (event.type === "completed") {
+        source.close();
+        resolve(event.job);
+      } else if (event.type === "failed") {
+        source.close();
+        reject(new Error(event.error));
+      }
+    };
+
+    // EventSource retries dropped connections itself; CLOSED means it gave up
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost connection to the OCR job"));
+      }
+    };
+  });
+}
+
+// Poll a ZIP batch until every document in it has finished
+async function watchBatch(batchId: string, onUpdate: (batch: OcrBatchResponse) => void): Promise<OcrBatchResponse> {
+  for (;;) {
+    const response = await fetch(`/api/batches/${batchId}`, { credentials: "include" });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || "Lost connection to the OCR batch");
+    }
+    const batch: OcrBatchResponse = await response.json();
+    onUpdate(batch);
+    if (batch.status === "completed") {
+      return batch;
+    }
+    await new Promise((resolve) => setTimeout(resolve, BATCH_POLL_INTERVAL));
+  }
+}
+
+function describeBatch(batch: OcrBatchResponse): string {
+  const done = batch.jobs.filter((job) => job.status === "succeeded" || job.status === "failed").length;
+  return `${done} of ${batch.jobs.length} documents done`;
+}
+
+function describeJobEvent(event: OcrJobEvent): string {
+  switch (event.type) {
+    case "received":
+      return "Upload received, waiting in queue...";
+    case "started":
+      return "Preparing document...";
+    case "submitted":
+      return "Document submitted for OCR...";
+    case "poll":
+      return `OCR ${event.status === "notStarted" ? "queued" : event.status} (check ${event.attempt})...`;
+    case "page":
+      return `Page ${event.page} of ${event.pageCount} ${event.method === "text-layer" ? "read from embedded text" : "extracted"}`;
+    case "completed":
+      return "Done";
+    case "failed":
+      return event.error;
+  }
+}
+
+// Jobs still running when the page was closed, so a reload can pick them up again
+function getActiveJobs(): ActiveJob[] {
+  try {
+    return JSON.parse(localStorage.getItem(ACTIVE_JOBS_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+function isSameSubmission(a: Submission, b: Submission): boolean {
+  return a.jobId ? a.jobId === b.jobId : a.batchId === b.batchId;
+}
+
+function rememberJob(submission: Submission, { name, size, type }: UploadedFile): void {
+  const others = getActiveJobs().filter((job) => !isSameSubmission(job, submission));
+  localStorage.setItem(ACTIVE_JOBS_KEY, JSON.stringify([...others, { ...submission, file: { name, size, type } }]));
+}
+
+function forgetJob(submission: Submission): void {
+  const remaining = getActiveJobs().filter((job) => !isSameSubmission(job, submission));
+  localStorage.setItem(ACTIVE_JOBS_KEY, JSON.stringify(remaining));
+}
+
+async function submitFile(
+  file: File,
+  options: OcrUploadOptions,
+  onUploadProgress: (percent: number) => void,
+): Promise<Submission> {
+  const formData = new FormData();
+  if (file.size > RESUMABLE_UPLOAD_THRESHOLD) {
+    // Large files go up in resumable chunks, then the finished upload is queued
+    const uploadId = await uploadResumable(file, (sent, total) => {
+      onUploadProgress(Math.round((100 * sent) / total));
+    });
+    formData.append("uploadId", uploadId);
+  } else {
+    formData.append("file", file);
+  }
+  formData.append("searchablePdf", String(options.searchablePdf));
+  formData.append("forceOcr", String(options.forceOcr));
+  formData.append("preprocess", options.preprocess.join(","));
+  formData.append("pages", options.pages);
+  formData.append("languages", options.languages.join(",") || "auto");
+  formData.append("readingOrder", options.readingOrder);
+  formData.append("modelVersion", options.modelVersion);
+
+  const response = await fetch("/api/ocr", {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to process file");
+  }
+
+  const data = await response.json();
+  forgetUpload(file);
+  return data.batchId ? { batchId: data.batchId } : { jobId: data.jobId };
+}
+
+function createItem(file: UploadedFile, options: OcrUploadOptions, submission?: Submission): QueueItem {
+  return {
+    id: crypto.randomUUID(),
+    file,
+    options,
+    status: submission ? "processing" : "waiting",
+    progress: 0,
+    statusText: submission ? "Reconnecting..." : "Waiting to upload...",
+    jobId: submission?.jobId ?? null,
+    pageTexts: [],
+    job: null,
+    batchId: submission?.batchId ?? null,
+    batch: null,
+    error: null,
+  };
+}
+
+function getSubmission(item: QueueItem): Submission | null {
+  if (item.jobId) return { jobId: item.jobId };
+  if (item.batchId) return { batchId: item.batchId };
+  return null;
+}
+
+// A queue of OCR uploads: each file becomes its own job, a few run at a time,
+// and jobs that were still running survive a reload.
+export function useOcrQueue() {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>(getPendingUploads);
+  // File objects for items that haven't been uploaded yet (not kept in state)
+  const files = useRef(new Map<string, File>());
+  const started = useRef(new Set<string>());
+
+  const updateItem = useCallback((id: string, update: (item: QueueItem) => Partial<QueueItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...update(item) } : item)));
+  }, []);
+
+  const runItem = useCallback(
+    async (item: QueueItem) => {
+      let submission = getSubmission(item);
+      try {
+        if (!submission) {
+          const file = files.current.get(item.id);
+          if (!file) {
+            throw new Error("The file is no longer available. Please select it again.");
+          }
+          updateItem(item.id, () => ({ status: "uploading", statusText: "Uploading..." }));
+          submission = await submitFile(file, item.options, (percent) => {
+            updateItem(item.id, () => ({ statusText: `Uploading... ${percent}%` }));
+          });
+          rememberJob(submission, item.file);
+          const { jobId = null, batchId = null } = submission;
+          updateItem(item.id, () => ({ jobId, batchId, status: "processing" }));
+        }
+
+        if (submission.batchId !== undefined) {
+          const batch = await watchBatch(submission.batchId, (update) => {
+            const progress = update.jobs.reduce((sum, job) => sum + job.progress, 0) / Math.max(update.jobs.length, 1);
+            updateItem(item.id, () => ({
+              batch: update,
+              progress: Math.round(progress),
+              statusText: describeBatch(update),
+            }));
+          });
+          updateItem(item.id, () => ({ status: "succeeded", progress: 100, statusText: describeBatch(batch), batch }));
+          return;
+        }
+        const { jobId } = submission;
+
+        // Show page text as it arrives; a reconnect replays pages we already have
+        const job = await watchJob(jobId, (event) => {
+          updateItem(item.id, (current) => {
+            const pageTexts = [...current.pageTexts];
+            if (event.type === "page") {
+              pageTexts[event.page - 1] = event.text;
+            }
+            return {
+              progress: Math.max(current.progress, event.progress),
+              statusText: describeJobEvent(event),
+              pageTexts,
+            };
+          });
+        });
+        updateItem(item.id, () => ({ status: "succeeded", progress: 100, statusText: "Done", job }));
+      } catch (error: any) {
+        updateItem(item.id, () => ({ status: "failed", error: error.message || "Failed to process file" }));
+      } finally {
+        files.current.delete(item.id);
+        if (submission) {
+          forgetJob(submission);
+        }
+        setPendingUploads(getPendingUploads());
+      }
+    },
+    [updateItem],
+  );
+
+  // Start waiting items while there are free slots
+  useEffect(() => {
+    let free = MAX_ACTIVE_ITEMS - items.filter(isActive).length;
+    for (const item of items) {
+      if (free <= 0) break;
+      const ready = item.status === "waiting" || (item.status === "processing" && getSubmission(item));
+      if (!ready || started.current.has(item.id)) continue;
+      started.current.add(item.id);
+      if (item.status === "waiting") free--;
+      void runItem(item);
+    }
+  }, [items, runItem]);
+
+  // Resume jobs that were still running when the page was closed
+  useEffect(() => {
+    const resumed = getActiveJobs().map(({ file, ...submission }) =>
+      createItem(file, RESUMED_ITEM_OPTIONS, submission),
+    );
+    if (resumed.length > 0) {
+      setItems((prev) => [...resumed, ...prev]);
+    }
+  }, []);
+
+  const addFiles = useCallback((newFiles: File[], options: OcrUploadOptions): QueueItem[] => {
+    const added = newFiles.map((file) => createItem(file, options));
+    added.forEach((item, i) => files.current.set(item.id, newFiles[i]));
+    setItems((prev) => [...prev, ...added]);
+    return added;
+  }, []);
+
+  // Show a finished job from an earlier session, e.g. one opened from the library
+  const openJob = useCallback((file: UploadedFile, job: OcrJobResponse): QueueItem => {
+    const item: QueueItem = {
+      ...createItem(file, RESUMED_ITEM_OPTIONS),
+      status: "succeeded",
+      progress: 100,
+      statusText: "Opened from your library",
+      jobId: job.id,
+      job,
+    };
+    setItems((prev) => [...prev, item]);
+    return item;
+  }, []);
+
+  // Drop an item that isn't uploading or running
+  const removeItem = useCallback((id: string) => {
+    files.current.delete(id);
+    setItems((prev) => prev.filter((item) => item.id !== id || isActive(item)));
+  }, []);
+
+  // Replace a finished item's job, e.g. after its text was corrected
+  const setItemJob = useCallback(
+    (id: string, job: OcrJobResponse) => {
+      updateItem(id, () => ({ job }));
+    },
+    [updateItem],
+  );
+
+  const clearFinished = useCallback(() => {
+    setItems((prev) => prev.filter((item) => item.status !== "succeeded" && item.status !== "failed"));
+  }, []);
+
+  return {
+    items,
+    pendingUploads,
+    isBusy: items.some((item) => item.status === "waiting" || isActive(item)),
+    addFiles,
+    openJob,
+    removeItem,
+    setItemJob,
+    clearFinished,
+  };
+}
@@ -0,0 +1,69 @@
+import { useCallback, useState } from "react";
+
+// Undo steps kept per draft
+const MAX_HISTORY = 200;
+
+interface TextHistory {
+  past: string[];
+  present: string;
+  future: string[];
+}
+
+// Editable text drafts keyed by page number, each with its own undo/redo history.
+// A page has no draft until it is edited.
+export function useTextHistory() {
+  const [histories, setHistories] = useState<Record<number, TextHistory>>({});
+
+  // Record an edit; original is the text the page had before its first edit
+  const edit = useCallback((key: number, original: string, text: string) => {
+    setHistories((prev) => {
+      const history = prev[key] ?? { past: [], present: original, future: [] };
+      if (history.present === text) return prev;
+      const past = [...history.past, history.present].slice(-MAX_HISTORY);
+      return { ...prev, [key]: { past, present: text, future: [] } };
+    });
+  }, []);
+
+  const undo = useCallback((key: number) => {
+    setHistories((prev) => {
+      const history = prev[key];
+      if (!history || history.past.length === 0) return prev;
+      const past = history.past.slice(0, -1);
+      const present = history.past[history.past.length - 1];
+      return { ...prev, [key]: { past, present, future: [history.present, ...history.future] } };
+    });
+  }, []);
+
+  const redo = useCallback((key: number) => {
+    setHistories((prev) => {
+      const history = prev[key];
+      if (!history || history.future.length === 0) return prev;
+      const [present, ...future] = history.future;
+      return { ...prev, [key]: { past: [...history.past, history.present], present, future } };
+    });
+  }, []);
+
+  // Drop one draft, or every draft when no key is given
+  const discard = useCallback((key?: number) => {
+    setHistories((prev) => {
+      if (key === undefined) return {};
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const drafts: Record<number, string> = {};
+  for (const [key, history] of Object.entries(histories)) {
+    drafts[Number(key)] = history.present;
+  }
+
+  return {
+    drafts,
+    canUndo: (key: number) => (histories[key]?.past.length ?? 0) > 0,
+    canRedo: (key: number) => (histories[key]?.future.length ?? 0) > 0,
+    edit,
+    undo,
+    redo,
+    discard,
+  };
+}
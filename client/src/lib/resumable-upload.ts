@@ -0,0 +1,155 @@
+import type { OcrUploadResponse } from "@shared/schema";
+
+// Files larger than this are sent in chunks that survive dropped connections and reloads
+export const RESUMABLE_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+
+const PENDING_UPLOADS_KEY = "ocr-pending-uploads";
+const MAX_RETRY_DELAY = 30000;
+const MAX_CONSECUTIVE_FAILURES = 10;
+
+export interface PendingUpload {
+  uploadId: string;
+  name: string;
+  size: number;
+  lastModified: number;
+}
+
+class UploadRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body: any,
+  ) {
+    super(message);
+  }
+}
+
+// Unfinished uploads, remembered so the same file can resume after a reload
+export function getPendingUploads(): PendingUpload[] {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_UPLOADS_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+function isSameFile(upload: PendingUpload, file: File): boolean {
+  return upload.name === file.name && upload.size === file.size && upload.lastModified === file.lastModified;
+}
+
+function savePendingUploads(uploads: PendingUpload[]): void {
+  localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(uploads));
+}
+
+function rememberUpload(file: File, uploadId: string): void {
+  const { name, size, lastModified } = file;
+  const others = getPendingUploads().filter((upload) => !isSameFile(upload, file));
+  savePendingUploads([...others, { uploadId, name, size, lastModified }]);
+}
+
+// Stop tracking a file's upload once it has been queued (or abandoned)
+export function forgetUpload(file: File): void {
+  savePendingUploads(getPendingUploads().filter((upload) => !isSameFile(upload, file)));
+}
+
+async function request(url: string, init: RequestInit): Promise<OcrUploadResponse> {
+  const response = await fetch(url, { credentials: "include", ...init });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new UploadRequestError(body.message || `Upload failed (${response.status})`, response.status, body);
+  }
+  return body;
+}
+
+async function sha256Base64(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  let binary = "";
+  digest.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// Wait before retrying, and for the browser to come back online if it went offline
+async function waitToRetry(attempt: number): Promise<void> {
+  const delay = Math.min(MAX_RETRY_DELAY, 1000 * 2 ** attempt);
+  await new Promise((resolve) => setTimeout(resolve, delay));
+  if (!navigator.onLine) {
+    await new Promise((resolve) => window.addEventListener("online", resolve, { once: true }));
+  }
+}
+
+// Network failures, throttling, server errors, a busy upload (409) and a
+// corrupted chunk (422) are worth retrying; other 4xx are not
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof UploadRequestError)) return true;
+  return [408, 409, 422, 429].includes(error.status) || error.status >= 500;
+}
+
+async function startOrResume(file: File): Promise<OcrUploadResponse> {
+  const pending = getPendingUploads().find((upload) => isSameFile(upload, file));
+  if (pending) {
+    try {
+      return await request(`/api/uploads/${pending.uploadId}`, { method: "GET" });
+    } catch (error) {
+      // Expired or unknown uploads start over; anything else is a real failure
+      if (!(error instanceof UploadRequestError && error.status === 404)) throw error;
+      forgetUpload(file);
+    }
+  }
+
+  const upload = await request("/api/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ filename: file.name, size: file.size, mimeType: file.type }),
+  });
+  rememberUpload(file, upload.uploadId);
+  return upload;
+}
+
+// Upload a file in checksummed chunks, resuming from the server's offset after
+// failures, and return the upload id to pass to POST /api/ocr.
+export async function uploadResumable(file: File, onProgress?: (sent: number, total: number) => void): Promise<string> {
+  let upload = await startOrResume(file);
+  let failures = 0;
+  onProgress?.(upload.offset, upload.size);
+
+  while (upload.offset < upload.size) {
+    const chunk = await file.slice(upload.offset, upload.offset + upload.chunkSize).arrayBuffer();
+    try {
+      upload = await request(`/api/uploads/${upload.uploadId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/offset+octet-stream",
+          "Upload-Offset": String(upload.offset),
+          "Upload-Checksum": `sha256 ${await sha256Base64(chunk)}`,
+        },
+        body: chunk,
+      });
+      failures = 0;
+      onProgress?.(upload.offset, upload.size);
+    } catch (error) {
+      if (error instanceof UploadRequestError && error.status === 409 && typeof error.body.offset === "number") {
+        // The server already has more (or less) than we thought; continue from its offset
+        upload = error.body;
+        continue;
+      }
+      if (error instanceof UploadRequestError && error.status === 404) {
+        forgetUpload(file);
+        throw new Error("The upload expired. Please select the file again.");
+      }
+      if (!isRetryable(error)) {
+        throw error;
+      }
+      if (++failures >= MAX_CONSECUTIVE_FAILURES) {
+        throw new Error("The upload was interrupted. Select the same file again to resume it.");
+      }
+
+      await waitToRetry(failures);
+      // The chunk may have landed before the connection dropped
+      upload = await request(`/api/uploads/${upload.uploadId}`, { method: "GET" }).catch(() => upload);
+    }
+  }
+
+  return upload.uploadId;
+}
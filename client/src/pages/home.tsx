@@ -1,14 +1,48 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { PageViewer } from "@/components/page-viewer";
+import { useOcrQueue, getItemText, isActive, type QueueItem } from "@/hooks/use-ocr-queue";
+import { useTextHistory } from "@/hooks/use-text-history";
 import { queryClient } from "@/lib/queryClient";
+import {
+  DEFAULT_OCR_SETTINGS,
+  OCR_LANGUAGES,
+  OCR_MODEL_VERSIONS,
+  OCR_READING_ORDERS,
+  PREPROCESS_STEPS,
+  type LibraryDocumentResponse,
+  type OcrBatchResponse,
+  type OcrJobResponse,
+  type OcrLanguage,
+  type OcrModelVersion,
+  type OcrPageResult,
+  type OcrReadingOrder,
+  type OcrSettings,
+  type PreprocessStep,
+} from "@shared/schema";
+import { parsePageRanges } from "@shared/page-ranges";
 import { 
   Upload, 
   FileText, 
@@ -27,7 +61,18 @@ import {
   GripVertical,
   ChevronUp,
   ChevronDown,
-  Trash2
+  ChevronLeft,
+  ChevronRight,
+  Trash2,
+  FileDown,
+  FileCode,
+  Columns2,
+  Pencil,
+  Undo2,
+  Redo2,
+  Save,
+  Eraser,
+  Library
 } from "lucide-react";
 
 const MAX_FILE_SIZE = 300 * 1024 * 1024; // 300MB in bytes
@@ -36,14 +81,142 @@ const ACCEPTED_TYPES = [
   "image/png",
   "image/jpeg",
   "image/jpg",
-  "text/plain"
+  "image/tiff",
+  "image/webp",
+  "image/gif",
+  "image/bmp",
+  "image/heic",
+  "image/heif",
+  "text/plain",
+  "application/zip",
+  "application/x-zip-compressed"
 ];
+const ACCEPTED_EXTENSIONS = [
+  ".pdf", ".png", ".jpg", ".jpeg", ".tif", ".tiff", ".webp", ".gif", ".bmp", ".heic", ".heif", ".txt", ".zip",
+];
+const PREPROCESS_LABELS: Record<PreprocessStep, string> = {
+  rotate: "Auto-rotate",
+  crop: "Crop borders",
+  deskew: "Deskew",
+  denoise: "Denoise",
+  binarize: "Black & white",
+};
+
+const READING_ORDER_LABELS: Record<OcrReadingOrder, string> = {
+  basic: "Line by line",
+  natural: "Natural (columns)",
+};
+
+const MODEL_VERSION_LABELS: Record<OcrModelVersion, string> = {
+  latest: "Latest model",
+  "2022-04-30": "Model 2022-04-30",
+  "2021-04-12": "Model 2021-04-12",
+};
+
+function describeLanguages(languages: OcrLanguage[]): string {
+  if (languages.length === 0) return "Auto-detect";
+  if (languages.length > 2) return `${languages.length} languages`;
+  return languages.map((code) => OCR_LANGUAGES[code]).join(", ");
+}
+
+function getStatusBadge(item: QueueItem) {
+  switch (item.status) {
+    case "waiting":
+      return <Badge variant="outline">Waiting</Badge>;
+    case "uploading":
+    case "processing":
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {item.status === "uploading" ? "Uploading" : "Processing"}
+        </Badge>
+      );
+    case "succeeded":
+      return (
+        <Badge className="gap-1 bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20">
+          <CheckCircle2 className="h-3 w-3" />
+          Complete
+        </Badge>
+      );
+    case "failed":
+      return (
+        <Badge variant="destructive" className="gap-1">
+          <X className="h-3 w-3" />
+          Failed
+        </Badge>
+      );
+  }
+}
+
+// Failed and skipped entries are listed in errors.txt inside the results ZIP
+function describeBatchResult(batch: OcrBatchResponse): string {
+  const succeeded = batch.jobs.filter((job) => job.status === "succeeded").length;
+  const failed = batch.jobs.length - succeeded;
+  const parts = [`${succeeded} of ${batch.jobs.length} documents extracted`];
+  if (failed > 0) parts.push(`${failed} failed`);
+  if (batch.skipped.length > 0) parts.push(`${batch.skipped.length} skipped`);
+  return parts.join(", ");
+}
+
+// Page number, size, rotation, source and confidence of a result page,
+// e.g. "Page 3 · 8.50 × 11.00 in · rotated 1.2° · 94% confidence"
+function describePage(page: OcrPageResult): string {
+  const parts = [`Page ${page.pageNumber}`];
+  if (page.width > 0 && page.height > 0) {
+    const digits = page.unit === "inch" ? 2 : 0;
+    parts.push(`${page.width.toFixed(digits)} × ${page.height.toFixed(digits)} ${page.unit === "inch" ? "in" : "px"}`);
+  }
+  if (Math.abs(page.angle) >= 0.1) {
+    parts.push(`rotated ${page.angle.toFixed(1)}°`);
+  }
+  if (page.method === "text-layer") {
+    parts.push("embedded text");
+  }
+  if (page.confidence !== null) {
+    parts.push(`${Math.round(page.confidence * 100)}% confidence`);
+  }
+  return parts.join(" · ");
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { credentials: "include" });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Request failed (${response.status})`);
+  }
+  return response.json();
+}
+
+function downloadText(text: string, filename: string) {
+  const blob = new Blob([text], { type: "text/plain" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
 
 export default function Home() {
-  const [file, setFile] = useState<File | null>(null);
-  const [extractedText, setExtractedText] = useState<string>("");
   const [isDragging, setIsDragging] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [searchablePdf, setSearchablePdf] = useState(false);
+  const [forceOcr, setForceOcr] = useState(false);
+  const [preprocessSteps, setPreprocessSteps] = useState<PreprocessStep[]>([]);
+  const [pageRange, setPageRange] = useState("");
+  const pageRangeInvalid = parsePageRanges(pageRange) === null;
+  const [ocrSettings, setOcrSettings] = useState<OcrSettings>(DEFAULT_OCR_SETTINGS);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Page of the selected result shown on its own (index into pageResults), or null for all pages
+  const [pageIndex, setPageIndex] = useState<number | null>(null);
+  // Show the page image next to its text instead of the text alone
+  const [sideBySide, setSideBySide] = useState(false);
+  // Correct the text of the page shown; edits stay local drafts until saved
+  const [editing, setEditing] = useState(false);
+  const textHistory = useTextHistory();
+  const queue = useOcrQueue();
   const { toast } = useToast();
   const { user, isLoading: authLoading, isAuthenticated } = useAuth();
 
@@ -76,6 +249,102 @@ export default function Home() {
     }
   }, [toast]);
 
+  // Open a saved document from the library (/?document=<id>) in the results card
+  useEffect(() => {
+    const documentId = new URLSearchParams(window.location.search).get("document");
+    if (!documentId) return;
+    window.history.replaceState({}, "", window.location.pathname);
+    (async () => {
+      try {
+        const saved = await fetchJson<LibraryDocumentResponse>(`/api/documents/${documentId}`);
+        const job = await fetchJson<OcrJobResponse>(`/api/jobs/${saved.jobId}`);
+        const item = queue.openJob({ name: saved.filename, size: saved.size, type: "" }, job);
+        setSelectedId(item.id);
+      } catch (error: any) {
+        toast({
+          title: "Could not open document",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    })();
+  }, []);
+
+  // Account-wide opt-out from the shared OCR result cache
+  const cacheOptOutMutation = useMutation({
+    mutationFn: async (ocrCacheOptOut: boolean) => {
+      const response = await fetch("/api/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ocrCacheOptOut }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to update preferences");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save preference",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Start from the signed-in user's saved OCR settings
+  useEffect(() => {
+    if (user) {
+      setOcrSettings({
+        languages: user.ocrLanguages,
+        readingOrder: user.ocrReadingOrder,
+        modelVersion: user.ocrModelVersion,
+      });
+    }
+  }, [user?.id]);
+
+  // OCR settings chosen in the upload card become the signed-in user's default
+  const ocrSettingsMutation = useMutation({
+    mutationFn: async (settings: OcrSettings) => {
+      const response = await fetch("/api/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ocrLanguages: settings.languages,
+          ocrReadingOrder: settings.readingOrder,
+          ocrModelVersion: settings.modelVersion,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to update preferences");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save default OCR settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateOcrSettings = (update: Partial<OcrSettings>) => {
+    const settings = { ...ocrSettings, ...update };
+    setOcrSettings(settings);
+    if (user) {
+      ocrSettingsMutation.mutate(settings);
+    }
+  };
+
   // Payment mutation
   const paymentMutation = useMutation({
     mutationFn: async () => {
@@ -131,42 +400,70 @@ export default function Home() {
   const [txtCopied, setTxtCopied] = useState(false);
   const [isTxtDragging, setIsTxtDragging] = useState(false);
 
-  const ocrMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append("file", file);
-
-      const response = await fetch("/api/ocr", {
-        method: "POST",
-        body: formData,
-      });
+  // The result shown below the queue: the file the user picked, else the first with text
+  const selected =
+    queue.items.find((item) => item.id === selectedId) ?? queue.items.find((item) => getItemText(item)) ?? null;
+  const extractedText = selected ? getItemText(selected) : "";
+  const resultJob = selected?.job ?? null;
+  const pageMethods = resultJob?.pageMethods ?? [];
+  const pageResults = resultJob?.pageResults ?? [];
+  const currentPage = pageIndex !== null ? pageResults[pageIndex] ?? null : null;
+  const pageImageUrls = resultJob?.pageImageUrls ?? [];
+  const viewerImageUrl = sideBySide && pageIndex !== null ? pageImageUrls[pageIndex] : undefined;
+  const { drafts } = textHistory;
+  // A page as the user sees it: unsaved edits, else the saved correction, else the OCR text
+  const getShownPageText = (page: OcrPageResult) => drafts[page.pageNumber] ?? page.correctedText ?? page.text;
+  const unsavedPages = pageResults.filter(
+    (page) => drafts[page.pageNumber] !== undefined && drafts[page.pageNumber] !== (page.correctedText ?? page.text),
+  );
+  const isModified = Boolean(resultJob?.correctedText) || unsavedPages.length > 0;
+  // The whole result with corrections applied; Copy and Download use this, not the raw OCR text
+  const resultText = unsavedPages.length > 0 ? pageResults.map(getShownPageText).join("\n\n").trim() : extractedText;
+  const shownText = currentPage ? getShownPageText(currentPage) : resultText;
+  const resultBasename = selected ? selected.file.name.replace(/\.[^/.]+$/, "") : "extracted-text";
+  const previewUrls = resultJob?.previewUrls ?? [];
+  const finishedItems = queue.items.filter((item) => item.status === "succeeded" || item.status === "failed");
+  const succeededItems = queue.items.filter((item) => item.status === "succeeded");
+  // ZIP batches are downloaded as their own results archive
+  const textItems = succeededItems.filter((item) => item.job);
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to process file");
+  // Summarise once every queued file has finished
+  const wasBusy = useRef(false);
+  useEffect(() => {
+    if (wasBusy.current && !queue.isBusy) {
+      const failed = queue.items.filter((item) => item.status === "failed");
+      if (failed.length === 0) {
+        const [only] = succeededItems;
+        toast({
+          title: "Text extracted successfully",
+          description:
+            succeededItems.length > 1
+              ? `Processed ${succeededItems.length} files`
+              : only?.batch
+                ? `Processed ${only.batch.jobs.length} document(s) from ${only.file.name}`
+                : only?.job?.cached
+                ? `Reused the result of an identical earlier upload (${only.job.pages || 1} page(s))`
+                : `Processed ${only?.job?.pages || 1} page(s)`,
+        });
+      } else {
+        toast({
+          title: failed.length === 1 ? "Error processing file" : "Some files could not be processed",
+          description:
+            queue.items.length === 1
+              ? failed[0].error
+              : `${failed.length} of ${finishedItems.length} file(s) failed. See the list for details.`,
+          variant: "destructive",
+        });
       }
-
-      return response.json();
-    },
-    onSuccess: (data) => {
-      setExtractedText(data.text);
-      toast({
-        title: "Text extracted successfully",
-        description: `Processed ${data.pages || 1} page(s)`,
-      });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Error processing file",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
+    }
+    wasBusy.current = queue.isBusy;
+  }, [queue.isBusy]);
 
   const validateFile = (file: File): string | null => {
-    if (!ACCEPTED_TYPES.includes(file.type)) {
-      return "Please upload a PDF, PNG, JPG, or TXT file";
+    // Browsers often report an empty or generic type; the server checks the actual content
+    const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+    if (!ACCEPTED_TYPES.includes(file.type) && !ACCEPTED_EXTENSIONS.includes(extension)) {
+      return "Please upload a PDF, image (PNG, JPG, TIFF, WebP, GIF, BMP, HEIC), TXT, or ZIP file";
     }
     if (file.size > MAX_FILE_SIZE) {
       return "File size must be less than 300MB";
@@ -174,20 +471,51 @@ export default function Home() {
     return null;
   };
 
-  const handleFile = useCallback((file: File) => {
-    const error = validateFile(file);
-    if (error) {
+  const handleFiles = useCallback((files: File[]) => {
+    const rejected: string[] = [];
+    const accepted = files.filter((file) => {
+      const error = validateFile(file);
+      if (error) rejected.push(`${file.name}: ${error}`);
+      return !error;
+    });
+    if (rejected.length > 0) {
+      toast({
+        title: rejected.length === 1 ? "Invalid file" : `${rejected.length} files skipped`,
+        description: rejected.join("\n"),
+        variant: "destructive",
+      });
+    }
+    if (accepted.length === 0) return;
+    if (pageRangeInvalid) {
       toast({
-        title: "Invalid file",
-        description: error,
+        title: "Invalid page range",
+        description: 'Use page numbers and ranges separated by commas, e.g. "1-3,7,10-".',
         variant: "destructive",
       });
       return;
     }
-    setFile(file);
-    setExtractedText("");
-    ocrMutation.mutate(file);
-  }, [toast, ocrMutation]);
+
+    const added = queue.addFiles(accepted, {
+      ...ocrSettings,
+      searchablePdf,
+      forceOcr,
+      preprocess: preprocessSteps,
+      pages: pageRange,
+    });
+    if (!selected) {
+      setSelectedId(added[0].id);
+    }
+  }, [
+    toast,
+    queue.addFiles,
+    ocrSettings,
+    searchablePdf,
+    forceOcr,
+    preprocessSteps,
+    pageRange,
+    pageRangeInvalid,
+    selected,
+  ]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -202,49 +530,148 @@ export default function Home() {
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile) {
-      handleFile(droppedFile);
-    }
-  }, [handleFile]);
+    handleFiles(Array.from(e.dataTransfer.files));
+  }, [handleFiles]);
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      handleFile(selectedFile);
+    handleFiles(Array.from(e.target.files || []));
+    // Allow selecting the same files again
+    e.target.value = "";
+  }, [handleFiles]);
+
+  // Show every page again when another result is selected
+  useEffect(() => {
+    setPageIndex(null);
+    setSideBySide(false);
+    setEditing(false);
+    textHistory.discard();
+  }, [selected?.id, resultJob?.id]);
+
+  // Save page corrections one request at a time (the JSON body limit is small);
+  // text null restores the OCR output. Each response carries the updated job.
+  const correctionMutation = useMutation({
+    mutationFn: async ({ item, job, pages }: {
+      item: QueueItem;
+      job: OcrJobResponse;
+      pages: { pageNumber: number; text: string | null }[];
+    }) => {
+      for (const { pageNumber, text } of pages) {
+        const response = await fetch(`/api/jobs/${job.id}/pages/${pageNumber}/correction`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ text }),
+        });
+        if (!response.ok) {
+          const error = await response.json().catch(() => ({}));
+          throw new Error(error.message || `Failed to save page ${pageNumber}`);
+        }
+        queue.setItemJob(item.id, await response.json());
+        textHistory.discard(pageNumber);
+      }
+    },
+    onSuccess: (_data, { pages }) => {
+      const restored = pages.every(({ text }) => text === null);
+      toast({
+        title: restored ? "OCR text restored" : "Corrections saved",
+        description: restored
+          ? `Page ${pages[0].pageNumber} shows the original OCR text again`
+          : `Saved ${pages.length} corrected page(s). The original OCR text is kept as well.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save corrections",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveCorrections = () => {
+    if (!selected || !resultJob || unsavedPages.length === 0) return;
+    const pages = unsavedPages.map((page) => ({ pageNumber: page.pageNumber, text: getShownPageText(page) }));
+    correctionMutation.mutate({ item: selected, job: resultJob, pages });
+  };
+
+  // Drop the page's draft and any saved correction
+  const handleRestorePage = () => {
+    if (!selected || !resultJob || !currentPage) return;
+    textHistory.discard(currentPage.pageNumber);
+    if (currentPage.correctedText !== null) {
+      correctionMutation.mutate({
+        item: selected,
+        job: resultJob,
+        pages: [{ pageNumber: currentPage.pageNumber, text: null }],
+      });
     }
-  }, [handleFile]);
+  };
+
+  const toggleEditing = () => {
+    // The editor works on one page at a time
+    if (!editing && pageIndex === null) setPageIndex(0);
+    setSideBySide(false);
+    setEditing(!editing);
+  };
 
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y redo, per page
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!currentPage || !(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key !== "z" && key !== "y") return;
+    e.preventDefault();
+    if (key === "y" || e.shiftKey) {
+      textHistory.redo(currentPage.pageNumber);
+    } else {
+      textHistory.undo(currentPage.pageNumber);
+    }
+  };
+
+  // Copies the page being shown, or the whole text
   const handleCopy = useCallback(async () => {
-    await navigator.clipboard.writeText(extractedText);
+    await navigator.clipboard.writeText(shownText);
     setCopied(true);
     toast({
       title: "Copied to clipboard",
-      description: "Text has been copied to your clipboard",
+      description: currentPage
+        ? `Text of page ${currentPage.pageNumber} has been copied to your clipboard`
+        : "Text has been copied to your clipboard",
     });
     setTimeout(() => setCopied(false), 2000);
-  }, [extractedText, toast]);
+  }, [shownText, currentPage, toast]);
 
   const handleDownload = useCallback(() => {
-    const blob = new Blob([extractedText], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = file ? `${file.name.replace(/\.[^/.]+$/, "")}.txt` : "extracted-text.txt";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadText(resultText, `${resultBasename}.txt`);
     toast({
       title: "Downloaded",
       description: "Text file has been downloaded",
     });
-  }, [extractedText, file, toast]);
+  }, [resultText, resultBasename, toast]);
+
+  const handleDownloadPage = useCallback(() => {
+    if (!currentPage) return;
+    downloadText(shownText, `${resultBasename}-page-${currentPage.pageNumber}.txt`);
+    toast({
+      title: "Downloaded",
+      description: `Text of page ${currentPage.pageNumber} has been downloaded`,
+    });
+  }, [currentPage, shownText, resultBasename, toast]);
+
+  // Every finished file's text in one download, in queue order
+  const handleDownloadAll = useCallback(() => {
+    const combined = textItems
+      .map((item) => `===== ${item.file.name} =====\n\n${getItemText(item)}`)
+      .join("\n\n");
+    downloadText(combined, "extracted-text-all.txt");
+    toast({
+      title: "Downloaded",
+      description: `Text of ${textItems.length} file(s) has been downloaded`,
+    });
+  }, [textItems, toast]);
 
   const handleClear = useCallback(() => {
-    setFile(null);
-    setExtractedText("");
-  }, []);
+    queue.clearFinished();
+    setSelectedId(null);
+  }, [queue.clearFinished]);
 
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return bytes + " B";
@@ -485,6 +912,17 @@ export default function Home() {
                     {user.firstName || user.email?.split("@")[0] || "User"}
                   </span>
                 </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  asChild
+                  data-testid="link-library"
+                >
+                  <Link href="/library">
+                    <Library className="h-4 w-4 mr-2" />
+                    Library
+                  </Link>
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -521,7 +959,7 @@ export default function Home() {
               Extract Text from Documents
             </h2>
             <p className="text-muted-foreground max-w-2xl mx-auto">
-              Upload scanned PDFs or images (PNG, JPG) up to 300MB. Our OCR technology will extract all text content for you to copy or download.
+              Upload scanned PDFs or images (PNG, JPG, TIFF, WebP, GIF, BMP, HEIC) up to 300MB, one at a time, many at once, or as a ZIP. Our OCR technology will extract all text content for you to copy or download.
             </p>
           </div>
 
@@ -530,24 +968,22 @@ export default function Home() {
               <label
                 htmlFor="file-upload"
                 className={`relative flex flex-col items-center justify-center transition-all duration-200 p-12 rounded-md ${
-                  ocrMutation.isPending
-                    ? "cursor-not-allowed opacity-60 bg-muted/30 border-2 border-dashed border-muted-foreground/20"
-                    : isDragging 
-                      ? "cursor-pointer bg-primary/5 border-2 border-dashed border-primary" 
-                      : "cursor-pointer bg-muted/30 border-2 border-dashed border-muted-foreground/20 hover-elevate"
+                  isDragging 
+                    ? "cursor-pointer bg-primary/5 border-2 border-dashed border-primary" 
+                    : "cursor-pointer bg-muted/30 border-2 border-dashed border-muted-foreground/20 hover-elevate"
                 }`}
-                onDragOver={ocrMutation.isPending ? undefined : handleDragOver}
-                onDragLeave={ocrMutation.isPending ? undefined : handleDragLeave}
-                onDrop={ocrMutation.isPending ? undefined : handleDrop}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
                 data-testid="dropzone-file-upload"
               >
                 <input
                   id="file-upload"
                   type="file"
                   className="sr-only"
-                  accept=".pdf,.png,.jpg,.jpeg,.txt"
+                  accept=".pdf,.png,.jpg,.jpeg,.tif,.tiff,.webp,.gif,.bmp,.heic,.heif,.txt,.zip"
+                  multiple
                   onChange={handleInputChange}
-                  disabled={ocrMutation.isPending}
                   data-testid="input-file-upload"
                 />
                 
@@ -557,7 +993,7 @@ export default function Home() {
                   </div>
                   <div className="text-center space-y-2">
                     <p className="text-lg font-medium">
-                      {isDragging ? "Drop your file here" : "Drag & drop your file here"}
+                      {isDragging ? "Drop your files here" : "Drag & drop one or more files here"}
                     </p>
                     <p className="text-sm text-muted-foreground">
                       or click to browse
@@ -567,76 +1003,283 @@ export default function Home() {
                     <Badge variant="secondary">PDF</Badge>
                     <Badge variant="secondary">PNG</Badge>
                     <Badge variant="secondary">JPG</Badge>
+                    <Badge variant="secondary">TIFF</Badge>
+                    <Badge variant="secondary">WebP</Badge>
+                    <Badge variant="secondary">GIF</Badge>
+                    <Badge variant="secondary">BMP</Badge>
+                    <Badge variant="secondary">HEIC</Badge>
                     <Badge variant="secondary">TXT</Badge>
+                    <Badge variant="secondary">ZIP</Badge>
                   </div>
                   <p className="text-xs text-muted-foreground">
                     Maximum file size: 300MB
                   </p>
+                  {!queue.isBusy && queue.pendingUploads.length > 0 && (
+                    <p className="text-xs text-muted-foreground" data-testid="text-pending-uploads">
+                      Unfinished upload: {queue.pendingUploads.map((upload) => upload.name).join(", ")}. Select the same
+                      file again to resume where it stopped.
+                    </p>
+                  )}
                 </div>
               </label>
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2 border-t px-4 py-3">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="option-searchable-pdf"
+                    checked={searchablePdf}
+                    onCheckedChange={(checked) => setSearchablePdf(checked === true)}
+                    data-testid="checkbox-searchable-pdf"
+                  />
+                  <Label htmlFor="option-searchable-pdf" className="text-sm font-normal">
+                    Also create a searchable PDF (PDF and image files)
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="option-force-ocr"
+                    checked={forceOcr}
+                    onCheckedChange={(checked) => setForceOcr(checked === true)}
+                    data-testid="checkbox-force-ocr"
+                  />
+                  <Label htmlFor="option-force-ocr" className="text-sm font-normal">
+                    OCR every page, even if the PDF already contains text
+                  </Label>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2" data-testid="group-preprocess">
+                  <span className="text-sm text-muted-foreground">Clean up images before OCR:</span>
+                  {PREPROCESS_STEPS.map((step) => (
+                    <div key={step} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`option-preprocess-${step}`}
+                        checked={preprocessSteps.includes(step)}
+                        onCheckedChange={(checked) =>
+                          setPreprocessSteps((prev) =>
+                            checked === true ? [...prev, step] : prev.filter((item) => item !== step),
+                          )
+                        }
+                        data-testid={`checkbox-preprocess-${step}`}
+                      />
+                      <Label htmlFor={`option-preprocess-${step}`} className="text-sm font-normal">
+                        {PREPROCESS_LABELS[step]}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="option-page-range" className="text-sm font-normal">
+                    Pages
+                  </Label>
+                  <Input
+                    id="option-page-range"
+                    value={pageRange}
+                    onChange={(e) => setPageRange(e.target.value)}
+                    placeholder="All (e.g. 1-3,7,10-)"
+                    className="h-8 w-44"
+                    aria-invalid={pageRangeInvalid}
+                    data-testid="input-page-range"
+                  />
+                  {pageRangeInvalid && (
+                    <span className="text-xs text-destructive" data-testid="text-page-range-error">
+                      Use numbers and ranges, e.g. 1-3,7,10-
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2" data-testid="group-ocr-settings">
+                  <span className="text-sm text-muted-foreground">Language:</span>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" data-testid="button-languages">
+                        {describeLanguages(ocrSettings.languages)}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+                      <DropdownMenuCheckboxItem
+                        checked={ocrSettings.languages.length === 0}
+                        onCheckedChange={() => updateOcrSettings({ languages: [] })}
+                        onSelect={(e) => e.preventDefault()}
+                        data-testid="checkbox-language-auto"
+                      >
+                        Auto-detect
+                      </DropdownMenuCheckboxItem>
+                      <DropdownMenuSeparator />
+                      {(Object.keys(OCR_LANGUAGES) as OcrLanguage[]).map((code) => (
+                        <DropdownMenuCheckboxItem
+                          key={code}
+                          checked={ocrSettings.languages.includes(code)}
+                          onCheckedChange={(checked) =>
+                            updateOcrSettings({
+                              languages: checked
+                                ? [...ocrSettings.languages, code]
+                                : ocrSettings.languages.filter((item) => item !== code),
+                            })
+                          }
+                          onSelect={(e) => e.preventDefault()}
+                          data-testid={`checkbox-language-${code}`}
+                        >
+                          {OCR_LANGUAGES[code]}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Select
+                    value={ocrSettings.readingOrder}
+                    onValueChange={(value) => updateOcrSettings({ readingOrder: value as OcrReadingOrder })}
+                  >
+                    <SelectTrigger className="h-8 w-40" data-testid="select-reading-order">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OCR_READING_ORDERS.map((order) => (
+                        <SelectItem key={order} value={order}>
+                          {READING_ORDER_LABELS[order]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={ocrSettings.modelVersion}
+                    onValueChange={(value) => updateOcrSettings({ modelVersion: value as OcrModelVersion })}
+                  >
+                    <SelectTrigger className="h-8 w-44" data-testid="select-model-version">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OCR_MODEL_VERSIONS.map((version) => (
+                        <SelectItem key={version} value={version}>
+                          {MODEL_VERSION_LABELS[version]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {user && <span className="text-xs text-muted-foreground">Saved as your default</span>}
+                </div>
+                {user && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="option-cache-opt-out"
+                      checked={cacheOptOutMutation.isPending ? cacheOptOutMutation.variables : user.ocrCacheOptOut}
+                      onCheckedChange={(checked) => cacheOptOutMutation.mutate(checked === true)}
+                      disabled={cacheOptOutMutation.isPending}
+                      data-testid="checkbox-cache-opt-out"
+                    />
+                    <Label htmlFor="option-cache-opt-out" className="text-sm font-normal">
+                      Never cache results of my uploads (for sensitive documents)
+                    </Label>
+                  </div>
+                )}
+              </div>
             </CardContent>
           </Card>
 
-          {file && (
+          {queue.items.length > 0 && (
             <Card>
-              <CardContent className="p-4">
-                <div className="flex items-center justify-between gap-4">
-                  <div className="flex items-center gap-3 min-w-0">
-                    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-muted">
-                      {getFileIcon(file.type)}
-                    </div>
-                    <div className="min-w-0">
-                      <p className="font-medium truncate" data-testid="text-filename">{file.name}</p>
-                      <p className="text-sm text-muted-foreground" data-testid="text-filesize">
-                        {formatFileSize(file.size)}
-                      </p>
-                    </div>
+              <CardContent className="p-0">
+                <div className="flex flex-wrap items-center justify-between gap-2 border-b p-4">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Files</span>
+                    <Badge variant="secondary" className="text-xs" data-testid="badge-queue-count">
+                      {finishedItems.length} of {queue.items.length} done
+                    </Badge>
                   </div>
                   <div className="flex items-center gap-2">
-                    {ocrMutation.isPending && (
-                      <Badge variant="secondary" className="gap-1">
-                        <Loader2 className="h-3 w-3 animate-spin" />
-                        Processing
-                      </Badge>
-                    )}
-                    {ocrMutation.isSuccess && (
-                      <Badge className="gap-1 bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20">
-                        <CheckCircle2 className="h-3 w-3" />
-                        Complete
-                      </Badge>
-                    )}
-                    {ocrMutation.isError && (
-                      <Badge variant="destructive" className="gap-1">
-                        <X className="h-3 w-3" />
-                        Failed
-                      </Badge>
+                    {textItems.length > 1 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDownloadAll}
+                        className="gap-2"
+                        data-testid="button-download-all"
+                      >
+                        <Download className="h-4 w-4" />
+                        Download all
+                      </Button>
                     )}
                     <Button
                       variant="ghost"
-                      size="icon"
+                      size="sm"
                       onClick={handleClear}
-                      disabled={ocrMutation.isPending}
-                      data-testid="button-clear-file"
+                      disabled={finishedItems.length === 0}
+                      data-testid="button-clear-finished"
                     >
-                      <X className="h-4 w-4" />
+                      Clear finished
                     </Button>
                   </div>
                 </div>
-                {ocrMutation.isPending && (
-                  <div className="mt-4 space-y-2">
-                    <Progress value={undefined} className="h-1" />
-                    <p className="text-xs text-muted-foreground text-center">
-                      Extracting text... This may take a moment for larger files.
-                    </p>
-                  </div>
-                )}
-                {ocrMutation.isError && (
-                  <div className="mt-4 p-3 rounded-md bg-destructive/10 border border-destructive/20">
-                    <p className="text-sm text-destructive" data-testid="text-error-message">
-                      {(ocrMutation.error as Error)?.message || "Failed to process file. Please try again."}
-                    </p>
-                  </div>
-                )}
+                <ul className="max-h-[400px] divide-y overflow-auto" data-testid="list-queue">
+                  {queue.items.map((item) => (
+                    <li
+                      key={item.id}
+                      className={`cursor-pointer p-4 ${item.id === selected?.id ? "bg-muted/50" : "hover-elevate"}`}
+                      onClick={() => setSelectedId(item.id)}
+                      data-testid={`queue-item-${item.id}`}
+                    >
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-muted">
+                            {getFileIcon(item.file.type)}
+                          </div>
+                          <div className="min-w-0">
+                            <p className="font-medium truncate" data-testid="text-filename">{item.file.name}</p>
+                            <p className="text-sm text-muted-foreground" data-testid="text-filesize">
+                              {formatFileSize(item.file.size)}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {getStatusBadge(item)}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              queue.removeItem(item.id);
+                            }}
+                            disabled={isActive(item)}
+                            data-testid="button-remove-file"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      {isActive(item) && (
+                        <div className="mt-3 space-y-2">
+                          <Progress value={item.progress} className="h-1" data-testid="progress-ocr" />
+                          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                            <span data-testid="text-ocr-status">{item.statusText || "Extracting text..."}</span>
+                            <span>{item.progress}%</span>
+                          </div>
+                        </div>
+                      )}
+                      {item.status === "succeeded" && item.batch && (
+                        <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                          <span data-testid="text-batch-summary">{describeBatchResult(item.batch)}</span>
+                          {item.batch.resultsUrl && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              asChild
+                              className="gap-2"
+                              onClick={(e) => e.stopPropagation()}
+                              data-testid="button-download-batch-results"
+                            >
+                              <a href={item.batch.resultsUrl} download>
+                                <FileDown className="h-4 w-4" />
+                                Results (ZIP)
+                              </a>
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                      {item.status === "failed" && (
+                        <div className="mt-3 p-3 rounded-md bg-destructive/10 border border-destructive/20">
+                          <p className="text-sm text-destructive" data-testid="text-error-message">
+                            {item.error || "Failed to process file. Please try again."}
+                          </p>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
               </CardContent>
             </Card>
           )}
@@ -649,8 +1292,23 @@ export default function Home() {
                     <FileText className="h-5 w-5 text-muted-foreground" />
                     <span className="font-medium">Extracted Text</span>
                     <Badge variant="secondary" className="text-xs">
-                      {extractedText.length.toLocaleString()} characters
+                      {resultText.length.toLocaleString()} characters
                     </Badge>
+                    {isModified && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs border-amber-500/40 text-amber-600 dark:text-amber-400"
+                        title={resultJob?.correctedAt ? `Corrected ${new Date(resultJob.correctedAt).toLocaleString()}` : undefined}
+                        data-testid="badge-modified"
+                      >
+                        {unsavedPages.length > 0 ? "Unsaved changes" : "Modified"}
+                      </Badge>
+                    )}
+                    {pageMethods.includes("text-layer") && (
+                      <Badge variant="outline" className="text-xs" data-testid="badge-page-methods">
+                        {pageMethods.filter((method) => method === "ocr").length} OCR / {pageMethods.filter((method) => method === "text-layer").length} embedded text
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex gap-2">
                     <Button
@@ -682,10 +1340,76 @@ export default function Home() {
                       <Download className="h-4 w-4" />
                       Download
                     </Button>
+                    {currentPage && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDownloadPage}
+                        className="gap-2"
+                        data-testid="button-download-page"
+                      >
+                        <Download className="h-4 w-4" />
+                        Download page {currentPage.pageNumber}
+                      </Button>
+                    )}
+                    {pageResults.length > 0 && (
+                      <Button
+                        variant={editing ? "secondary" : "outline"}
+                        size="sm"
+                        onClick={toggleEditing}
+                        className="gap-2"
+                        data-testid="button-edit-text"
+                      >
+                        <Pencil className="h-4 w-4" />
+                        {editing ? "Done editing" : "Edit"}
+                      </Button>
+                    )}
+                    {resultJob && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            data-testid="button-export"
+                          >
+                            <FileCode className="h-4 w-4" />
+                            Export
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem asChild>
+                            <a href={`/api/jobs/${resultJob.id}/export/hocr`} download data-testid="link-export-hocr">
+                              hOCR (.hocr)
+                            </a>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem asChild>
+                            <a href={`/api/jobs/${resultJob.id}/export/alto`} download data-testid="link-export-alto">
+                              ALTO XML (.xml)
+                            </a>
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                    {resultJob?.searchablePdfUrl && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        asChild
+                        className="gap-2"
+                        data-testid="button-download-searchable-pdf"
+                      >
+                        <a href={resultJob.searchablePdfUrl} download>
+                          <FileDown className="h-4 w-4" />
+                          Searchable PDF
+                        </a>
+                      </Button>
+                    )}
                     <Button
                       variant="secondary"
                       size="sm"
                       onClick={handleClear}
+                      disabled={finishedItems.length === 0}
                       className="gap-2"
                       data-testid="button-reset"
                     >
@@ -694,19 +1418,182 @@ export default function Home() {
                     </Button>
                   </div>
                 </div>
-                <div className="p-4">
-                  <div 
-                    className="min-h-[200px] max-h-[500px] overflow-auto rounded-md bg-muted/50 p-4 font-mono text-sm leading-relaxed whitespace-pre-wrap"
-                    data-testid="text-extracted-content"
-                  >
-                    {extractedText}
+                {(pageResults.length > 1 || pageImageUrls.length > 0) && (
+                  <div className="flex flex-wrap items-center gap-2 border-b px-4 py-2" data-testid="nav-result-pages">
+                    <Button
+                      variant={currentPage ? "ghost" : "secondary"}
+                      size="sm"
+                      onClick={() => {
+                        setPageIndex(null);
+                        setSideBySide(false);
+                      }}
+                      data-testid="button-all-pages"
+                    >
+                      All pages
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setPageIndex(Math.max((pageIndex ?? 0) - 1, 0))}
+                      disabled={pageIndex === null || pageIndex === 0}
+                      aria-label="Previous page"
+                      data-testid="button-previous-page"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Select
+                      value={currentPage ? String(pageIndex) : ""}
+                      onValueChange={(value) => setPageIndex(Number(value))}
+                    >
+                      <SelectTrigger className="h-8 w-32" data-testid="select-result-page">
+                        <SelectValue placeholder="Go to page" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {pageResults.map((page, i) => (
+                          <SelectItem key={page.pageNumber} value={String(i)}>
+                            Page {page.pageNumber}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setPageIndex(pageIndex === null ? 0 : Math.min(pageIndex + 1, pageResults.length - 1))}
+                      disabled={pageIndex === pageResults.length - 1}
+                      aria-label="Next page"
+                      data-testid="button-next-page"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                    <span className="text-xs text-muted-foreground" data-testid="text-page-details">
+                      {currentPage ? describePage(currentPage) : `${pageResults.length} pages`}
+                    </span>
+                    {pageImageUrls.length > 0 && (
+                      <Button
+                        variant={sideBySide ? "secondary" : "outline"}
+                        size="sm"
+                        className="ml-auto gap-2"
+                        onClick={() => {
+                          // The viewer shows one page at a time
+                          if (pageIndex === null) setPageIndex(0);
+                          setEditing(false);
+                          setSideBySide(!sideBySide);
+                        }}
+                        data-testid="button-side-by-side"
+                      >
+                        <Columns2 className="h-4 w-4" />
+                        Compare with original
+                      </Button>
+                    )}
                   </div>
+                )}
+                <div className="p-4">
+                  {editing && currentPage ? (
+                    <div className="space-y-2" data-testid="page-editor">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => textHistory.undo(currentPage.pageNumber)}
+                          disabled={!textHistory.canUndo(currentPage.pageNumber)}
+                          aria-label="Undo"
+                          data-testid="button-undo-edit"
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => textHistory.redo(currentPage.pageNumber)}
+                          disabled={!textHistory.canRedo(currentPage.pageNumber)}
+                          aria-label="Redo"
+                          data-testid="button-redo-edit"
+                        >
+                          <Redo2 className="h-4 w-4" />
+                        </Button>
+                        {(currentPage.correctedText !== null || drafts[currentPage.pageNumber] !== undefined) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleRestorePage}
+                            disabled={correctionMutation.isPending}
+                            className="gap-2"
+                            data-testid="button-restore-ocr-text"
+                          >
+                            <Eraser className="h-4 w-4" />
+                            Restore OCR text
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          onClick={handleSaveCorrections}
+                          disabled={unsavedPages.length === 0 || correctionMutation.isPending}
+                          className="ml-auto gap-2"
+                          data-testid="button-save-corrections"
+                        >
+                          {correctionMutation.isPending ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Save className="h-4 w-4" />
+                          )}
+                          Save corrections{unsavedPages.length > 1 ? ` (${unsavedPages.length} pages)` : ""}
+                        </Button>
+                      </div>
+                      <Textarea
+                        value={shownText}
+                        onChange={(e) =>
+                          textHistory.edit(
+                            currentPage.pageNumber,
+                            currentPage.correctedText ?? currentPage.text,
+                            e.target.value,
+                          )
+                        }
+                        onKeyDown={handleEditorKeyDown}
+                        className="min-h-[300px] font-mono text-sm leading-relaxed"
+                        data-testid="textarea-edit-page"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Corrections are saved next to the OCR output, which stays available through the exports.
+                      </p>
+                    </div>
+                  ) : viewerImageUrl && resultJob && currentPage ? (
+                    <PageViewer jobId={resultJob.id} pageNumber={currentPage.pageNumber} imageUrl={viewerImageUrl} />
+                  ) : (
+                    <div 
+                      className="min-h-[200px] max-h-[500px] overflow-auto rounded-md bg-muted/50 p-4 font-mono text-sm leading-relaxed whitespace-pre-wrap"
+                      data-testid="text-extracted-content"
+                    >
+                      {shownText}
+                    </div>
+                  )}
+                  {previewUrls.length > 0 && (
+                    <div className="mt-4 space-y-2">
+                      <p className="text-sm text-muted-foreground">Images sent to OCR after clean-up</p>
+                      <div className="flex gap-3 overflow-x-auto pb-2" data-testid="list-preprocess-previews">
+                        {previewUrls.map((url, i) => (
+                          <a key={url} href={url} target="_blank" rel="noreferrer" className="shrink-0">
+                            <img
+                              src={url}
+                              alt={`Page ${i + 1} after preprocessing`}
+                              className="h-40 rounded-md border bg-white object-contain"
+                              data-testid={`img-preprocess-preview-${i + 1}`}
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
           )}
 
-          {!file && !extractedText && (
+          {queue.items.length === 0 && (
             <div className="flex flex-wrap justify-center gap-4 text-sm text-muted-foreground">
               <div className="flex items-center gap-2">
                 <Upload className="h-4 w-4 text-primary" />
@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { queryClient } from "@/lib/queryClient";
+import { OCR_LANGUAGES, type LibraryDocumentOptions, type LibraryDocumentResponse } from "@shared/schema";
+import { formatPageRanges } from "@shared/page-ranges";
+import {
+  ArrowLeft,
+  Check,
+  Download,
+  FileDown,
+  FileText,
+  FolderOpen,
+  Library,
+  Loader2,
+  LogIn,
+  Pencil,
+  ScanText,
+  Trash2,
+  X,
+} from "lucide-react";
+
+const DOCUMENTS_KEY = ["/api/documents"];
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return bytes + " B";
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+  return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+}
+
+// The options that differ from the defaults, e.g. "German · pages 1-3 · searchable PDF"
+function describeOptions(options: LibraryDocumentOptions): string {
+  const parts: string[] = [];
+  if (options.languages.length > 0) {
+    parts.push(options.languages.map((language) => OCR_LANGUAGES[language]).join(", "));
+  }
+  if (options.pageRanges.length > 0) {
+    parts.push(`pages ${formatPageRanges(options.pageRanges)}`);
+  }
+  if (options.preprocess.length > 0) {
+    parts.push(options.preprocess.join(", "));
+  }
+  if (options.readingOrder === "natural") {
+    parts.push("natural reading order");
+  }
+  if (options.modelVersion !== "latest") {
+    parts.push(`model ${options.modelVersion}`);
+  }
+  if (options.forceOcr) {
+    parts.push("forced OCR");
+  }
+  if (options.searchablePdf) {
+    parts.push("searchable PDF");
+  }
+  return parts.join(" · ");
+}
+
+async function sendDocumentRequest(method: "PATCH" | "DELETE", id: string, body?: unknown): Promise<void> {
+  const response = await fetch(`/api/documents/${id}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || "Request failed");
+  }
+}
+
+// A signed-in user's earlier OCR runs, kept on the server
+export default function LibraryPage() {
+  const { user, isLoading: authLoading, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<LibraryDocumentResponse | null>(null);
+
+  const { data: documents, isLoading, error } = useQuery<LibraryDocumentResponse[]>({
+    queryKey: DOCUMENTS_KEY,
+    enabled: isAuthenticated,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, filename }: { id: string; filename: string }) =>
+      sendDocumentRequest("PATCH", id, { filename }),
+    onSuccess: () => {
+      setRenamingId(null);
+      queryClient.invalidateQueries({ queryKey: DOCUMENTS_KEY });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not rename document",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (document: LibraryDocumentResponse) => sendDocumentRequest("DELETE", document.id),
+    onSuccess: (_data, document) => {
+      queryClient.invalidateQueries({ queryKey: DOCUMENTS_KEY });
+      toast({
+        title: "Document deleted",
+        description: `${document.filename} and its results have been removed`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not delete document",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startRename = (document: LibraryDocumentResponse) => {
+    setRenamingId(document.id);
+    setNewName(document.filename);
+  };
+
+  const submitRename = (document: LibraryDocumentResponse) => {
+    const filename = newName.trim();
+    if (!filename || filename === document.filename) {
+      setRenamingId(null);
+      return;
+    }
+    renameMutation.mutate({ id: document.id, filename });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary">
+              <ScanText className="h-5 w-5 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold tracking-tight">Document Scanner</h1>
+              <p className="text-xs text-muted-foreground">Your library</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" asChild data-testid="link-home">
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Scan documents
+              </Link>
+            </Button>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="mx-auto max-w-4xl space-y-6">
+          <div className="flex items-center gap-2">
+            <Library className="h-6 w-6 text-muted-foreground" />
+            <h2 className="text-2xl font-bold tracking-tight">Library</h2>
+            {documents && documents.length > 0 && (
+              <Badge variant="secondary" className="text-xs" data-testid="badge-document-count">
+                {documents.length} document(s)
+              </Badge>
+            )}
+          </div>
+
+          {authLoading || (isAuthenticated && isLoading) ? (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading your documents...
+            </div>
+          ) : !isAuthenticated || !user ? (
+            <Card>
+              <CardContent className="flex flex-col items-center gap-4 p-8 text-center">
+                <p className="text-muted-foreground">Sign in to keep your OCR results and open them again later.</p>
+                <Button size="sm" asChild data-testid="button-login">
+                  <a href="/api/login">
+                    <LogIn className="h-4 w-4 mr-2" />
+                    Login with Google
+                  </a>
+                </Button>
+              </CardContent>
+            </Card>
+          ) : error ? (
+            <p className="text-destructive" data-testid="text-library-error">
+              Could not load your documents
+            </p>
+          ) : !documents || documents.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground" data-testid="text-library-empty">
+                Documents you scan while signed in are saved here.
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="divide-y p-0" data-testid="list-documents">
+                {documents.map((document) => (
+                  <div
+                    key={document.id}
+                    className="flex flex-wrap items-center gap-3 p-4"
+                    data-testid={`row-document-${document.id}`}
+                  >
+                    <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1 space-y-1">
+                      {renamingId === document.id ? (
+                        <form
+                          className="flex items-center gap-2"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            submitRename(document);
+                          }}
+                        >
+                          <Input
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            onKeyDown={(e) => e.key === "Escape" && setRenamingId(null)}
+                            maxLength={255}
+                            className="h-8"
+                            autoFocus
+                            data-testid="input-document-name"
+                          />
+                          <Button
+                            type="submit"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={renameMutation.isPending}
+                            aria-label="Save name"
+                            data-testid="button-save-name"
+                          >
+                            {renameMutation.isPending ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Check className="h-4 w-4" />
+                            )}
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setRenamingId(null)}
+                            aria-label="Cancel rename"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </form>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <span className="truncate font-medium" data-testid="text-document-name">
+                            {document.filename}
+                          </span>
+                          {document.corrected && (
+                            <Badge variant="outline" className="text-xs" data-testid="badge-document-corrected">
+                              Corrected
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(document.createdAt).toLocaleString()} · {document.pageCount} page(s) ·{" "}
+                        {formatFileSize(document.size)}
+                        {describeOptions(document.options) && ` · ${describeOptions(document.options)}`}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" asChild className="gap-2" data-testid="link-open-document">
+                        <Link href={`/?document=${document.id}`}>
+                          <FolderOpen className="h-4 w-4" />
+                          Open
+                        </Link>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-9 w-9"
+                        onClick={() => startRename(document)}
+                        aria-label="Rename"
+                        data-testid="button-rename-document"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-9 w-9"
+                        asChild
+                        aria-label="Download text"
+                        data-testid="link-download-document-text"
+                      >
+                        <a href={document.textUrl} download>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                      {document.searchablePdfUrl && (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-9 w-9"
+                          asChild
+                          aria-label="Download searchable PDF"
+                          data-testid="link-download-document-pdf"
+                        >
+                          <a href={document.searchablePdfUrl} download>
+                            <FileDown className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-9 w-9 text-destructive"
+                        onClick={() => setPendingDelete(document)}
+                        disabled={deleteMutation.isPending && deleteMutation.variables?.id === document.id}
+                        aria-label="Delete"
+                        data-testid="button-delete-document"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.filename}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The extracted text, your corrections and any searchable PDF are removed for good.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) deleteMutation.mutate(pendingDelete);
+              }}
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
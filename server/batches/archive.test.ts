@@ -0,0 +1,181 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { ZipFile } from "yazl";
+import sharp from "sharp";
+
+// Small limits keep the archives in these tests small; they're read when the module loads
+process.env.OCR_ZIP_MAX_ENTRIES = "20";
+process.env.OCR_ZIP_MAX_UNCOMPRESSED_MB = "1";
+const { ArchiveError, extractArchive, getSafeEntryPath } = await import("./archive");
+
+const MB = 1024 * 1024;
+
+interface ZipEntry {
+  name: string;
+  content?: Buffer | string;
+}
+
+let workDir: string;
+let png: Buffer;
+
+before(async () => {
+  workDir = await mkdtemp(path.join(tmpdir(), "archive-test-"));
+  png = await sharp({ create: { width: 8, height: 8, channels: 3, background: "white" } }).png().toBuffer();
+});
+
+after(async () => {
+  await rm(workDir, { recursive: true, force: true });
+});
+
+async function buildZip(entries: ZipEntry[]): Promise<Buffer> {
+  const zip = new ZipFile();
+  for (const { name, content = "" } of entries) {
+    if (name.endsWith("/")) zip.addEmptyDirectory(name);
+    else zip.addBuffer(Buffer.isBuffer(content) ? content : Buffer.from(content), name);
+  }
+  zip.end();
+  const chunks: Buffer[] = [];
+  for await (const chunk of zip.outputStream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+// Offsets of the central directory headers, found through the end of central directory record
+function getCentralHeaders(zip: Buffer): number[] {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const offsets: number[] = [];
+  let offset = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    offsets.push(offset);
+    offset += 46 + zip.readUInt16LE(offset + 28) + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+  }
+  return offsets;
+}
+
+// yazl refuses unsafe names, so entries are written under a placeholder of the
+// same length and renamed in place (names aren't covered by the CRC)
+function renameEntry(zip: Buffer, from: string, to: string): Buffer {
+  assert.equal(from.length, to.length);
+  return Buffer.from(zip.toString("latin1").replaceAll(from, to), "latin1");
+}
+
+// Overwrite the sizes the central directory declares for one entry, the way a
+// crafted archive would; yauzl trusts them until the entry is read
+function declareSizes(zip: Buffer, index: number, sizes: { compressed?: number; uncompressed: number }): Buffer {
+  const header = getCentralHeaders(zip)[index];
+  if (sizes.compressed !== undefined) zip.writeUInt32LE(sizes.compressed, header + 20);
+  zip.writeUInt32LE(sizes.uncompressed, header + 24);
+  return zip;
+}
+
+async function extract(zip: Buffer) {
+  const archivePath = path.join(workDir, `${Math.random().toString(36).slice(2)}.zip`);
+  await writeFile(archivePath, zip);
+  return extractArchive(archivePath, path.join(workDir, path.basename(archivePath, ".zip")));
+}
+
+function rejectsWith(pattern: RegExp) {
+  return (error: unknown) => {
+    assert.ok(error instanceof ArchiveError, `expected an ArchiveError, got ${error}`);
+    assert.match(error.message, pattern);
+    return true;
+  };
+}
+
+test("getSafeEntryPath normalizes relative paths", () => {
+  assert.equal(getSafeEntryPath("scans/page1.png"), "scans/page1.png");
+  assert.equal(getSafeEntryPath("./scans//page1.png"), "scans/page1.png");
+  assert.equal(getSafeEntryPath("scans/"), "scans/");
+  assert.equal(getSafeEntryPath("scans/..page1.png"), "scans/..page1.png");
+});
+
+test("getSafeEntryPath rejects paths that could escape the extraction directory", () => {
+  for (const name of [
+    "../evil.png",
+    "scans/../../evil.png",
+    "/etc/passwd",
+    "C:/Windows/evil.png",
+    "c:evil.png",
+    "..\\evil.png",
+    "scans\\page1.png",
+    "evil\u0000.png",
+    "",
+    ".",
+    "./",
+  ]) {
+    assert.equal(getSafeEntryPath(name), null, JSON.stringify(name));
+  }
+});
+
+test("extracts supported entries and reports the rest", async () => {
+  const { entries, skipped } = await extract(
+    await buildZip([
+      { name: "scans/" },
+      { name: "scans/page1.png", content: png },
+      { name: "inner.zip", content: await buildZip([{ name: "page2.png", content: png }]) },
+      { name: "renamed.pdf", content: png },
+      { name: "__MACOSX/scans/._page1.png", content: "junk" },
+    ]),
+  );
+  assert.deepEqual(
+    entries.map(({ path, size, type }) => ({ path, size, mimeType: type.mimeType })),
+    [{ path: "scans/page1.png", size: png.length, mimeType: "image/png" }],
+  );
+  assert.notEqual(path.basename(entries[0].filePath), "page1.png");
+  assert.deepEqual(
+    skipped.map((entry) => entry.path),
+    ["inner.zip", "renamed.pdf"],
+  );
+  assert.equal(skipped[0].reason, "Nested ZIP archives are not extracted");
+});
+
+test("rejects entries that climb out of the extraction directory", async () => {
+  const zip = renameEntry(await buildZip([{ name: "xx/evil.png", content: png }]), "xx/evil.png", "../evil.png");
+  await assert.rejects(extract(zip), rejectsWith(/unsafe path/));
+  assert.ok(!(await readdir(workDir)).includes("evil.png"));
+});
+
+test("rejects absolute entry paths", async () => {
+  const zip = renameEntry(await buildZip([{ name: "xtmp/evil.png", content: png }]), "xtmp/evil.png", "/tmp/evil.png");
+  await assert.rejects(extract(zip), rejectsWith(/unsafe path/));
+
+  const drive = renameEntry(await buildZip([{ name: "xxevil.png", content: png }]), "xxevil.png", "C:evil.png");
+  await assert.rejects(extract(drive), rejectsWith(/unsafe path/));
+});
+
+test("rejects archives with too many entries", async () => {
+  const entries = Array.from({ length: 21 }, (_, i) => ({ name: `page${i}.txt` }));
+  await assert.rejects(extract(await buildZip(entries)), rejectsWith(/has 21 entries; at most 20/));
+});
+
+test("rejects entries that declare an implausible compression ratio", async () => {
+  const zip = declareSizes(await buildZip([{ name: "bomb.png", content: png }]), 0, { uncompressed: 200 * MB });
+  await assert.rejects(extract(zip), rejectsWith(/"bomb\.png" expands more than 1000x/));
+});
+
+test("rejects archives whose entries add up to more than the size limit", async () => {
+  const content = randomBytes(0.6 * MB);
+  const zip = await buildZip([
+    { name: "part1.bin", content },
+    { name: "part2.bin", content },
+  ]);
+  await assert.rejects(extract(zip), rejectsWith(/expands to more than 1MB/));
+});
+
+test("skips entries over the upload size limit", async () => {
+  const zip = declareSizes(await buildZip([{ name: "huge.png", content: png }]), 0, {
+    compressed: 301 * MB,
+    uncompressed: 301 * MB,
+  });
+  const { entries, skipped } = await extract(zip);
+  assert.deepEqual(entries, []);
+  assert.deepEqual(skipped, [{ path: "huge.png", reason: "File size must be less than 300MB" }]);
+});
+
+test("fails when an entry inflates past its declared size", async () => {
+  const zip = declareSizes(await buildZip([{ name: "page.png", content: png }]), 0, { uncompressed: 10 });
+  await assert.rejects(extract(zip), rejectsWith(/could not be read/));
+});
@@ -0,0 +1,180 @@
+import { randomUUID } from "crypto";
+import { createWriteStream } from "fs";
+import { mkdir, rm } from "fs/promises";
+import path from "path";
+import { pipeline } from "stream/promises";
+import yauzl, { type Entry, type ZipFile } from "yauzl";
+import type { OcrBatchSkippedEntry } from "@shared/schema";
+import { describeExtensionMismatch, detectFileType, FILE_TYPES, type FileType } from "../fileType";
+import { MAX_UPLOAD_SIZE, SUPPORTED_MIME_TYPES } from "../jobs";
+
+// Zip bomb limits: entries per archive, total extracted size, and how far a
+// single large entry may expand relative to its compressed size
+const MAX_ARCHIVE_ENTRIES = parseInt(process.env.OCR_ZIP_MAX_ENTRIES || "500", 10);
+const MAX_ARCHIVE_UNCOMPRESSED_SIZE = parseInt(process.env.OCR_ZIP_MAX_UNCOMPRESSED_MB || "2048", 10) * 1024 * 1024;
+const MAX_COMPRESSION_RATIO = 1000;
+const RATIO_CHECK_MIN_SIZE = 1024 * 1024;
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+// An archive that can't (or mustn't) be extracted; reported to the client as a 400
+export class ArchiveError extends Error {}
+
+export interface ArchiveEntry {
+  path: string; // normalized path inside the archive
+  filePath: string; // extracted copy on disk
+  size: number;
+  type: FileType;
+}
+
+export interface ExtractedArchive {
+  entries: ArchiveEntry[];
+  skipped: OcrBatchSkippedEntry[];
+}
+
+// Normalize an entry name to a relative POSIX path, or return null when it
+// could escape the extraction directory (absolute, drive letter, "..", backslash)
+export function getSafeEntryPath(name: string): string | null {
+  if (!name || /[\u0000-\u001f\\]/.test(name) || name.startsWith("/") || /^[a-zA-Z]:/.test(name)) {
+    return null;
+  }
+  const segments = name.split("/").filter((segment) => segment && segment !== ".");
+  if (segments.length === 0 || segments.includes("..")) {
+    return null;
+  }
+  return segments.join("/") + (name.endsWith("/") ? "/" : "");
+}
+
+// Metadata written by macOS Finder and friends
+function isJunkEntry(entryPath: string): boolean {
+  const basename = path.posix.basename(entryPath);
+  return entryPath.startsWith("__MACOSX/") || basename.startsWith("._") || basename === ".DS_Store";
+}
+
+function isSymlink(entry: Entry): boolean {
+  return ((entry.externalFileAttributes >>> 16) & S_IFMT) === S_IFLNK;
+}
+
+// yauzl refuses unsafe names itself; turn its errors into messages for the client
+function toArchiveError(error: Error): ArchiveError {
+  if (/^(invalid relative path|absolute path|invalid characters in fileName)/.test(error.message)) {
+    return new ArchiveError(`The ZIP archive contains an unsafe path (${error.message})`);
+  }
+  return new ArchiveError(`The ZIP archive could not be read: ${error.message}`);
+}
+
+function readNextEntry(zip: ZipFile): Promise<Entry | null> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      zip.off("entry", onEntry);
+      zip.off("end", onEnd);
+      zip.off("error", onError);
+    };
+    const onEntry = (entry: Entry) => {
+      cleanup();
+      resolve(entry);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(null);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(toArchiveError(error));
+    };
+    zip.on("entry", onEntry).on("end", onEnd).on("error", onError);
+    zip.readEntry();
+  });
+}
+
+// Why an extracted entry can't become a job, or null if it can
+function getRejection(entryPath: string, type: FileType | null): string | null {
+  if (type === FILE_TYPES.zip) {
+    return "Nested ZIP archives are not extracted";
+  }
+  if (!type || !SUPPORTED_MIME_TYPES.includes(type.mimeType)) {
+    return `Unsupported file type${type ? ` (${type.label})` : ""}`;
+  }
+  return describeExtensionMismatch(path.posix.basename(entryPath), type);
+}
+
+// Extract the supported documents of a ZIP archive into destDir under random
+// names, so entry names never decide where anything is written. Unsafe paths
+// and archives exceeding the size limits are rejected outright; unsupported,
+// encrypted or oversized entries are skipped and reported.
+export async function extractArchive(archivePath: string, destDir: string): Promise<ExtractedArchive> {
+  // validateEntrySizes makes yauzl fail when an entry inflates past its declared size
+  const zip = await yauzl
+    .openPromise(archivePath, { lazyEntries: true, validateEntrySizes: true })
+    .catch((error) => Promise.reject(toArchiveError(error)));
+
+  try {
+    if (zip.entryCount > MAX_ARCHIVE_ENTRIES) {
+      throw new ArchiveError(
+        `The ZIP archive has ${zip.entryCount} entries; at most ${MAX_ARCHIVE_ENTRIES} are allowed.`,
+      );
+    }
+    await mkdir(destDir, { recursive: true });
+
+    const entries: ArchiveEntry[] = [];
+    const skipped: OcrBatchSkippedEntry[] = [];
+    let totalSize = 0;
+
+    for (let entry = await readNextEntry(zip); entry; entry = await readNextEntry(zip)) {
+      const entryPath = getSafeEntryPath(entry.fileName);
+      if (!entryPath) {
+        throw new ArchiveError(`The ZIP archive contains an unsafe path ("${entry.fileName}")`);
+      }
+      if (entryPath.endsWith("/") || isJunkEntry(entryPath)) {
+        continue;
+      }
+
+      const { uncompressedSize, compressedSize } = entry;
+      if (
+        uncompressedSize > RATIO_CHECK_MIN_SIZE &&
+        uncompressedSize > Math.max(compressedSize, 1) * MAX_COMPRESSION_RATIO
+      ) {
+        throw new ArchiveError(`"${entryPath}" expands more than ${MAX_COMPRESSION_RATIO}x; the archive looks like a zip bomb.`);
+      }
+      if (isSymlink(entry)) {
+        skipped.push({ path: entryPath, reason: "Symbolic links are not extracted" });
+        continue;
+      }
+      if (entry.isEncrypted()) {
+        skipped.push({ path: entryPath, reason: "Encrypted entries are not supported" });
+        continue;
+      }
+      if (uncompressedSize > MAX_UPLOAD_SIZE) {
+        skipped.push({ path: entryPath, reason: "File size must be less than 300MB" });
+        continue;
+      }
+      totalSize += uncompressedSize;
+      if (totalSize > MAX_ARCHIVE_UNCOMPRESSED_SIZE) {
+        throw new ArchiveError(
+          `The ZIP archive expands to more than ${Math.round(MAX_ARCHIVE_UNCOMPRESSED_SIZE / 1024 / 1024)}MB.`,
+        );
+      }
+
+      const filePath = path.join(destDir, randomUUID());
+      try {
+        await pipeline(await zip.openReadStreamPromise(entry), createWriteStream(filePath));
+      } catch (error: any) {
+        throw toArchiveError(error);
+      }
+
+      const type = await detectFileType(filePath);
+      const rejection = getRejection(entryPath, type);
+      if (rejection || !type) {
+        await rm(filePath, { force: true });
+        skipped.push({ path: entryPath, reason: rejection ?? "Unsupported file type" });
+        continue;
+      }
+      entries.push({ path: entryPath, filePath, size: uncompressedSize, type });
+    }
+
+    return { entries, skipped };
+  } finally {
+    zip.close();
+  }
+}
@@ -0,0 +1,3 @@
+export { batchStorage, type IBatchStorage } from "./storage";
+export { ArchiveError, extractArchive, getSafeEntryPath } from "./archive";
+export { queueArchive, registerBatchRoutes, toBatchResponse, type BatchJobOptions } from "./routes";
@@ -0,0 +1,186 @@
+import type { Express, Request } from "express";
+import { randomUUID } from "crypto";
+import { rm, stat } from "fs/promises";
+import path from "path";
+import { ZipFile } from "yazl";
+import type { InsertOcrJob, OcrBatch, OcrBatchResponse, OcrJob } from "@shared/schema";
+import { getCorrectedText, jobStorage, saveJobInput, wakeJobWorker, UPLOAD_DIR } from "../jobs";
+import { ArchiveError, extractArchive } from "./archive";
+import { batchStorage } from "./storage";
+
+// Options shared by every job of a batch, taken from the upload request
+export type BatchJobOptions = Pick<
+  InsertOcrJob,
+  | "format"
+  | "searchablePdf"
+  | "forceOcr"
+  | "useCache"
+  | "preprocess"
+  | "pageRanges"
+  | "languages"
+  | "readingOrder"
+  | "modelVersion"
+>;
+
+function isFinished(job: OcrJob): boolean {
+  return job.status === "succeeded" || job.status === "failed";
+}
+
+export function toBatchResponse(batch: OcrBatch, jobs: OcrJob[]): OcrBatchResponse {
+  const completed = jobs.every(isFinished);
+  return {
+    id: batch.id,
+    filename: batch.filename,
+    status: completed ? "completed" : "running",
+    jobs: jobs.map((job) => ({
+      id: job.id,
+      path: job.batchPath ?? job.filename,
+      status: job.status,
+      progress: job.progress,
+      error: job.error,
+    })),
+    skipped: batch.skipped,
+    resultsUrl: completed ? `/api/batches/${batch.id}/results.zip` : null,
+    createdAt: batch.createdAt.toISOString(),
+  };
+}
+
+// Batches created by a signed-in user are only visible to that user
+async function getVisibleBatch(req: Request): Promise<OcrBatch | undefined> {
+  const batch = await batchStorage.getBatch(req.params.id as string);
+  const userId = req.isAuthenticated() && req.user ? (req.user as any).id : null;
+  if (!batch || (batch.userId && batch.userId !== userId)) {
+    return undefined;
+  }
+  return batch;
+}
+
+// Extract a ZIP upload and queue one job per supported entry. Throws
+// ArchiveError when the archive is unsafe, unreadable or has nothing to OCR.
+export async function queueArchive(
+  archivePath: string,
+  filename: string,
+  userId: string | null,
+  options: BatchJobOptions,
+): Promise<OcrBatchResponse> {
+  const batchId = randomUUID();
+  const extractDir = path.join(UPLOAD_DIR, `batch-${batchId}`);
+
+  try {
+    const { entries, skipped } = await extractArchive(archivePath, extractDir);
+    if (entries.length === 0) {
+      throw new ArchiveError("The ZIP archive contains no supported documents.");
+    }
+
+    const batch = await batchStorage.createBatch({ id: batchId, userId, filename, skipped });
+    const jobs: OcrJob[] = [];
+    for (const entry of entries) {
+      const jobId = randomUUID();
+      const inputPath = await saveJobInput(jobId, entry.filePath);
+      jobs.push(
+        await jobStorage.createJob({
+          ...options,
+          id: jobId,
+          userId,
+          batchId,
+          batchPath: entry.path,
+          filename: path.posix.basename(entry.path),
+          mimeType: entry.type.mimeType,
+          size: entry.size,
+          inputPath,
+        }),
+      );
+    }
+    wakeJobWorker();
+
+    return toBatchResponse(batch, jobs);
+  } finally {
+    await rm(extractDir, { recursive: true, force: true });
+  }
+}
+
+// Result file name for an archive entry: scans/page1.tif -> scans/page1.txt,
+// falling back to page1.tif.txt (then numbering) when another entry took it
+function getResultPath(entryPath: string, extension: string, taken: Set<string>): string {
+  const stem = entryPath.slice(0, entryPath.length - path.posix.extname(entryPath).length);
+  const candidates = [`${stem}${extension}`, `${entryPath}${extension}`];
+  let name = candidates.find((candidate) => !taken.has(candidate));
+  for (let n = 2; !name; n++) {
+    const numbered = `${stem}-${n}${extension}`;
+    if (!taken.has(numbered)) name = numbered;
+  }
+  taken.add(name);
+  return name;
+}
+
+// Register ZIP batch routes. Batches are created by POST /api/ocr with a ZIP file.
+export function registerBatchRoutes(app: Express): void {
+  // Status of every job in a batch
+  app.get("/api/batches/:id", async (req, res) => {
+    try {
+      const batch = await getVisibleBatch(req);
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      res.json(toBatchResponse(batch, await jobStorage.getBatchJobs(batch.id)));
+    } catch (error) {
+      console.error("Error fetching batch:", error);
+      res.status(500).json({ message: "Failed to fetch batch" });
+    }
+  });
+
+  // Download the results as a ZIP mirroring the archive's folders: a .txt per
+  // document (with the user's corrections applied), the searchable PDFs that
+  // were requested, and .json documents with ?include=json. Failed and skipped
+  // entries are listed in errors.txt.
+  app.get("/api/batches/:id/results.zip", async (req, res) => {
+    try {
+      const batch = await getVisibleBatch(req);
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      const jobs = await jobStorage.getBatchJobs(batch.id);
+      if (!jobs.every(isFinished)) {
+        return res.status(409).json({ message: "The batch is still being processed" });
+      }
+
+      const includeJson = String(req.query.include ?? "").split(",").includes("json");
+      const zip = new ZipFile();
+      const taken = new Set<string>();
+      const errors = batch.skipped.map((entry) => `${entry.path}: ${entry.reason}`);
+
+      for (const job of jobs) {
+        const entryPath = job.batchPath ?? job.filename;
+        if (job.status === "failed") {
+          errors.push(`${entryPath}: ${job.error || "Failed to process file"}`);
+          continue;
+        }
+
+        const text = getCorrectedText(job) ?? job.text ?? "";
+        zip.addBuffer(Buffer.from(text), getResultPath(entryPath, ".txt", taken));
+        if (includeJson && job.document) {
+          zip.addBuffer(Buffer.from(JSON.stringify(job.document, null, 2)), getResultPath(entryPath, ".json", taken));
+        }
+        if (job.searchablePdfPath) {
+          const exists = await stat(job.searchablePdfPath).then(() => true, () => false);
+          if (exists) {
+            zip.addFile(job.searchablePdfPath, getResultPath(entryPath, ".pdf", taken));
+          }
+        }
+      }
+
+      if (errors.length > 0) {
+        zip.addBuffer(Buffer.from(errors.join("\n") + "\n"), getResultPath("errors", ".txt", taken));
+      }
+
+      const basename = batch.filename.replace(/\.[^/.]+$/, "");
+      res.attachment(`${basename}-results.zip`);
+      res.type("application/zip");
+      zip.outputStream.pipe(res);
+      zip.end();
+    } catch (error) {
+      console.error("Error downloading batch results:", error);
+      res.status(500).json({ message: "Failed to download batch results" });
+    }
+  });
+}
@@ -0,0 +1,23 @@
+import { ocrBatches, type InsertOcrBatch, type OcrBatch } from "@shared/schema";
+import { db } from "../db";
+import { eq } from "drizzle-orm";
+
+// Interface for ZIP batch storage operations
+export interface IBatchStorage {
+  createBatch(batch: InsertOcrBatch): Promise<OcrBatch>;
+  getBatch(id: string): Promise<OcrBatch | undefined>;
+}
+
+class BatchStorage implements IBatchStorage {
+  async createBatch(batch: InsertOcrBatch): Promise<OcrBatch> {
+    const [created] = await db.insert(ocrBatches).values(batch).returning();
+    return created;
+  }
+
+  async getBatch(id: string): Promise<OcrBatch | undefined> {
+    const [batch] = await db.select().from(ocrBatches).where(eq(ocrBatches.id, id));
+    return batch;
+  }
+}
+
+export const batchStorage = new BatchStorage();
@@ -0,0 +1,2 @@
+export { documentStorage, type IDocumentStorage, type LibraryDocumentWithJob } from "./storage";
+export { registerDocumentRoutes, toDocumentResponse } from "./routes";
@@ -0,0 +1,148 @@
+import type { Express, Request } from "express";
+import type { LibraryDocumentResponse } from "@shared/schema";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getCorrectedText, jobStorage, removeJobFiles } from "../jobs";
+import { documentStorage, type LibraryDocumentWithJob } from "./storage";
+
+const MAX_FILENAME_LENGTH = 255;
+const PDF_MISSING_MESSAGE = "The searchable PDF is no longer available. Upload the document again to recreate it.";
+
+export function toDocumentResponse({ document, job }: LibraryDocumentWithJob): LibraryDocumentResponse {
+  return {
+    id: document.id,
+    jobId: document.jobId,
+    filename: document.filename,
+    size: document.size,
+    contentHash: document.contentHash,
+    pageCount: document.pageCount,
+    options: document.options,
+    corrected: job.corrected,
+    textUrl: `/api/documents/${document.id}/text`,
+    searchablePdfUrl: job.searchablePdfPath ? `/api/documents/${document.id}/searchable.pdf` : null,
+    createdAt: document.createdAt.toISOString(),
+    updatedAt: document.updatedAt.toISOString(),
+  };
+}
+
+// Routes are behind isAuthenticated, so there is always a user
+function getUserId(req: Request): string {
+  return (req.user as any).id;
+}
+
+function getBasename(filename: string): string {
+  return filename.replace(/\.[^/.]+$/, "");
+}
+
+// The name must be usable as a download file name
+function parseDocumentName(value: unknown): string | undefined {
+  const filename = typeof value === "string" ? value.trim() : "";
+  if (!filename || filename.length > MAX_FILENAME_LENGTH || /[\\/]/.test(filename)) {
+    return undefined;
+  }
+  return filename;
+}
+
+// Register the signed-in user's document library routes
+export function registerDocumentRoutes(app: Express): void {
+  // Every saved document, newest first
+  app.get("/api/documents", isAuthenticated, async (req, res) => {
+    try {
+      const rows = await documentStorage.getUserDocuments(getUserId(req));
+      res.json(rows.map(toDocumentResponse));
+    } catch (error) {
+      console.error("Error fetching documents:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  app.get("/api/documents/:id", isAuthenticated, async (req, res) => {
+    try {
+      const row = await documentStorage.getDocument(req.params.id as string, getUserId(req));
+      if (!row) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.json(toDocumentResponse(row));
+    } catch (error) {
+      console.error("Error fetching document:", error);
+      res.status(500).json({ message: "Failed to fetch document" });
+    }
+  });
+
+  // Rename a document. Only the library entry changes; downloads use the new name.
+  app.patch("/api/documents/:id", isAuthenticated, async (req, res) => {
+    try {
+      const filename = parseDocumentName(req.body?.filename);
+      if (!filename) {
+        return res.status(400).json({
+          message: `filename must be 1-${MAX_FILENAME_LENGTH} characters without slashes`,
+        });
+      }
+
+      const userId = getUserId(req);
+      const row = await documentStorage.getDocument(req.params.id as string, userId);
+      if (!row) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      await documentStorage.renameDocument(row.document.id, filename);
+      const renamed = await documentStorage.getDocument(row.document.id, userId);
+      res.json(toDocumentResponse(renamed ?? row));
+    } catch (error) {
+      console.error("Error renaming document:", error);
+      res.status(500).json({ message: "Failed to rename document" });
+    }
+  });
+
+  // Delete a document together with its job and everything the job stored
+  app.delete("/api/documents/:id", isAuthenticated, async (req, res) => {
+    try {
+      const row = await documentStorage.getDocument(req.params.id as string, getUserId(req));
+      if (!row) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      const job = await jobStorage.getJob(row.document.jobId);
+      if (job) {
+        await removeJobFiles(job);
+        await jobStorage.deleteJob(job.id);
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
+
+  // The document's text with the user's corrections applied
+  app.get("/api/documents/:id/text", isAuthenticated, async (req, res) => {
+    try {
+      const row = await documentStorage.getDocument(req.params.id as string, getUserId(req));
+      const job = row ? await jobStorage.getJob(row.document.jobId) : undefined;
+      if (!row || !job) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.attachment(`${getBasename(row.document.filename)}.txt`);
+      res.type("text/plain");
+      res.send(getCorrectedText(job) ?? job.text ?? "");
+    } catch (error) {
+      console.error("Error downloading document text:", error);
+      res.status(500).json({ message: "Failed to download document text" });
+    }
+  });
+
+  app.get("/api/documents/:id/searchable.pdf", isAuthenticated, async (req, res) => {
+    try {
+      const row = await documentStorage.getDocument(req.params.id as string, getUserId(req));
+      const job = row ? await jobStorage.getJob(row.document.jobId) : undefined;
+      if (!row || !job?.searchablePdfPath) {
+        return res.status(404).json({ message: "Searchable PDF not found" });
+      }
+      res.download(job.searchablePdfPath, `${getBasename(row.document.filename)}-searchable.pdf`, (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: PDF_MISSING_MESSAGE });
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching searchable PDF:", error);
+      res.status(500).json({ message: "Failed to fetch searchable PDF" });
+    }
+  });
+}
@@ -0,0 +1,53 @@
+import { documents, ocrJobs, type LibraryDocument } from "@shared/schema";
+import { db } from "../db";
+import { and, desc, eq, sql } from "drizzle-orm";
+
+// A library entry with what the library shows of the job holding its result
+export interface LibraryDocumentWithJob {
+  document: LibraryDocument;
+  job: { corrected: boolean; searchablePdfPath: string | null };
+}
+
+// The job's text and structured result are left out; lists only need these
+const selectWithJob = {
+  document: documents,
+  job: {
+    corrected: sql<boolean>`${ocrJobs.corrections} <> '{}'::jsonb`,
+    searchablePdfPath: ocrJobs.searchablePdfPath,
+  },
+};
+
+// Interface for document library storage operations
+export interface IDocumentStorage {
+  getDocument(id: string, userId: string): Promise<LibraryDocumentWithJob | undefined>;
+  getUserDocuments(userId: string): Promise<LibraryDocumentWithJob[]>;
+  renameDocument(id: string, filename: string): Promise<void>;
+}
+
+class DocumentStorage implements IDocumentStorage {
+  // Only the owner's documents are returned
+  async getDocument(id: string, userId: string): Promise<LibraryDocumentWithJob | undefined> {
+    const [row] = await db
+      .select(selectWithJob)
+      .from(documents)
+      .innerJoin(ocrJobs, eq(documents.jobId, ocrJobs.id))
+      .where(and(eq(documents.id, id), eq(documents.userId, userId)));
+    return row;
+  }
+
+  // Newest first
+  async getUserDocuments(userId: string): Promise<LibraryDocumentWithJob[]> {
+    return db
+      .select(selectWithJob)
+      .from(documents)
+      .innerJoin(ocrJobs, eq(documents.jobId, ocrJobs.id))
+      .where(eq(documents.userId, userId))
+      .orderBy(desc(documents.createdAt));
+  }
+
+  async renameDocument(id: string, filename: string): Promise<void> {
+    await db.update(documents).set({ filename, updatedAt: new Date() }).where(eq(documents.id, id));
+  }
+}
+
+export const documentStorage = new DocumentStorage();
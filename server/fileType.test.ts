@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ZipFile } from "yazl";
+import { FILE_TYPES, sniffFileType } from "./fileType";
+
+// Builds a zip in memory; compress: false keeps entry contents readable in the head
+async function buildZip(entries: Record<string, string>, compress = true): Promise<Buffer> {
+  const zip = new ZipFile();
+  for (const [name, content] of Object.entries(entries)) {
+    if (name.endsWith("/")) zip.addEmptyDirectory(name);
+    else zip.addBuffer(Buffer.from(content), name, { compress });
+  }
+  zip.end();
+  const chunks: Buffer[] = [];
+  for await (const chunk of zip.outputStream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+const WORD_PARTS = {
+  "[Content_Types].xml": "<Types/>",
+  "_rels/.rels": "<Relationships/>",
+  "word/document.xml": "<w:document/>",
+};
+
+test("a zip with a word/document.xml part is a Word document", async () => {
+  assert.equal(sniffFileType(await buildZip(WORD_PARTS)), FILE_TYPES.docx);
+});
+
+test("a zip whose entry names merely contain word/ stays a zip", async () => {
+  const zip = await buildZip({
+    "Foreword/": "",
+    "Foreword/chapter1.txt": "Once upon a time",
+    "keyword/index.txt": "index",
+  });
+  assert.equal(sniffFileType(zip), FILE_TYPES.zip);
+});
+
+test("word/document.xml must be a top-level entry of an OPC package", async () => {
+  const nested = await buildZip({ "[Content_Types].xml": "<Types/>", "backup/word/document.xml": "<w:document/>" });
+  assert.equal(sniffFileType(nested), FILE_TYPES.zip);
+
+  const withoutContentTypes = await buildZip({ "word/document.xml": "<w:document/>" });
+  assert.equal(sniffFileType(withoutContentTypes), FILE_TYPES.zip);
+});
+
+test("file contents that mention word/document.xml don't count as entries", async () => {
+  const zip = await buildZip({ "notes.txt": "unzip word/document.xml from the docx [Content_Types].xml" }, false);
+  assert.ok(zip.includes("word/document.xml"));
+  assert.equal(sniffFileType(zip), FILE_TYPES.zip);
+});
+
+test("a Word document is recognised from a truncated sample", async () => {
+  const docx = await buildZip({ ...WORD_PARTS, "word/media/image1.png": "x".repeat(100_000) }, false);
+  const head = docx.subarray(0, 64 * 1024);
+  assert.equal(sniffFileType(head, true), FILE_TYPES.docx);
+});
+
+test("an empty zip stays a zip", async () => {
+  assert.equal(sniffFileType(await buildZip({})), FILE_TYPES.zip);
+});
@@ -0,0 +1,128 @@
+import { open } from "fs/promises";
+import path from "path";
+
+// Bytes read from the start of a file to identify it
+const SNIFF_BYTES = 64 * 1024;
+
+export interface FileType {
+  mimeType: string;
+  label: string;
+  extensions: string[];
+}
+
+export const FILE_TYPES = {
+  pdf: { mimeType: "application/pdf", label: "PDF document", extensions: ["pdf"] },
+  png: { mimeType: "image/png", label: "PNG image", extensions: ["png"] },
+  jpeg: { mimeType: "image/jpeg", label: "JPEG image", extensions: ["jpg", "jpeg", "jpe", "jfif"] },
+  tiff: { mimeType: "image/tiff", label: "TIFF image", extensions: ["tif", "tiff"] },
+  gif: { mimeType: "image/gif", label: "GIF image", extensions: ["gif"] },
+  webp: { mimeType: "image/webp", label: "WebP image", extensions: ["webp"] },
+  bmp: { mimeType: "image/bmp", label: "BMP image", extensions: ["bmp", "dib"] },
+  heic: { mimeType: "image/heic", label: "HEIC image", extensions: ["heic", "heif"] },
+  docx: {
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    label: "Word document",
+    extensions: ["docx"],
+  },
+  zip: { mimeType: "application/zip", label: "ZIP archive", extensions: ["zip"] },
+  text: { mimeType: "text/plain", label: "plain text file", extensions: ["txt", "text"] },
+} satisfies Record<string, FileType>;
+
+const HEIC_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx", "hevm", "hevs", "mif1", "msf1"];
+const ZIP_LOCAL_HEADER = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+// Parts every Word document has (Open Packaging Conventions)
+const DOCX_ENTRIES = ["[Content_Types].xml", "word/document.xml"];
+
+function startsWith(head: Buffer, signature: number[] | string, offset = 0): boolean {
+  const bytes = typeof signature === "string" ? Buffer.from(signature, "latin1") : Buffer.from(signature);
+  return head.length >= offset + bytes.length && head.subarray(offset, offset + bytes.length).equals(bytes);
+}
+
+// Names of the ZIP entries whose local file headers fall within the sample.
+// Headers are found by signature, since entries written with a data
+// descriptor don't record their size up front.
+function getZipEntryNames(head: Buffer): string[] {
+  const names: string[] = [];
+  let offset = head.indexOf(ZIP_LOCAL_HEADER);
+  while (offset !== -1 && offset + 30 <= head.length) {
+    const nameLength = head.readUInt16LE(offset + 26);
+    const nameEnd = offset + 30 + nameLength;
+    if (nameEnd > head.length) break;
+    names.push(head.toString("utf-8", offset + 30, nameEnd));
+    offset = head.indexOf(ZIP_LOCAL_HEADER, nameEnd);
+  }
+  return names;
+}
+
+// UTF-8 without NUL bytes and with almost no control characters
+function looksLikeText(head: Buffer, truncated: boolean): boolean {
+  if (head.length === 0 || head.includes(0)) return false;
+
+  // A multi-byte character may have been cut off at the end of the sample
+  let sample = head;
+  if (truncated) {
+    let end = head.length;
+    while (end > head.length - 4 && end > 0 && (head[end - 1] & 0xc0) === 0x80) end--;
+    if (end > 0 && head[end - 1] >= 0xc0) end--;
+    sample = head.subarray(0, end);
+  }
+
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(sample);
+  } catch {
+    return false;
+  }
+
+  const controls = text.match(/[\u0000-\u0008\u000b\u000e-\u001f\u007f]/g)?.length ?? 0;
+  return controls <= text.length * 0.01;
+}
+
+// Identify a file from its leading bytes. Returns null for anything unrecognised.
+export function sniffFileType(head: Buffer, truncated = false): FileType | null {
+  // PDF headers may be preceded by junk; readers accept them within the first 1KB
+  if (head.subarray(0, 1024).includes("%PDF-")) return FILE_TYPES.pdf;
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return FILE_TYPES.png;
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return FILE_TYPES.jpeg;
+  if (startsWith(head, [0x49, 0x49, 0x2a, 0x00]) || startsWith(head, [0x4d, 0x4d, 0x00, 0x2a])) return FILE_TYPES.tiff;
+  if (startsWith(head, "GIF87a") || startsWith(head, "GIF89a")) return FILE_TYPES.gif;
+  if (startsWith(head, "RIFF") && startsWith(head, "WEBP", 8)) return FILE_TYPES.webp;
+  if (startsWith(head, "BM") && head.length >= 26 && head.readUInt32LE(14) >= 12) return FILE_TYPES.bmp;
+  // ISO base media file with a HEIF brand ("ftyp" box at offset 4)
+  if (startsWith(head, "ftyp", 4) && HEIC_BRANDS.includes(head.toString("latin1", 8, 12))) return FILE_TYPES.heic;
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04]) || startsWith(head, [0x50, 0x4b, 0x05, 0x06])) {
+    // Word documents are zips with a word/document.xml part
+    const names = getZipEntryNames(head);
+    return DOCX_ENTRIES.every((name) => names.includes(name)) ? FILE_TYPES.docx : FILE_TYPES.zip;
+  }
+  if (looksLikeText(head, truncated)) return FILE_TYPES.text;
+  return null;
+}
+
+export async function detectFileType(filePath: string): Promise<FileType | null> {
+  const file = await open(filePath, "r");
+  try {
+    const head = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await file.read(head, 0, SNIFF_BYTES, 0);
+    const { size } = await file.stat();
+    return sniffFileType(head.subarray(0, bytesRead), size > bytesRead);
+  } finally {
+    await file.close();
+  }
+}
+
+export function getFileTypeByExtension(filename: string): FileType | null {
+  const extension = path.extname(filename).slice(1).toLowerCase();
+  if (!extension) return null;
+  return Object.values(FILE_TYPES).find((type) => type.extensions.includes(extension)) ?? null;
+}
+
+// Error message when the filename's extension names a different type than the
+// content, or null when they agree (or the extension is unknown)
+export function describeExtensionMismatch(filename: string, detected: FileType): string | null {
+  const claimed = getFileTypeByExtension(filename);
+  if (!claimed || claimed === detected) {
+    return null;
+  }
+  return `"${filename}" has a ${path.extname(filename)} extension but its content is a ${detected.label}. Rename it to .${detected.extensions[0]} or upload the original file.`;
+}
@@ -0,0 +1,105 @@
+import { createHash } from "crypto";
+import { ocrCache, type InsertOcrCacheEntry, type OcrCacheEntry, type OcrJob } from "@shared/schema";
+import { db } from "../db";
+import { openSource, type OcrSource } from "../ocr";
+import { and, desc, eq, gt, lt, lte, or } from "drizzle-orm";
+
+// How long a cached result may be reused (0 disables the cache)
+export const CACHE_TTL_HOURS = parseFloat(process.env.OCR_CACHE_TTL_HOURS || "168");
+// Least recently used entries beyond this count are evicted (0 means no limit)
+const CACHE_MAX_ENTRIES = parseInt(process.env.OCR_CACHE_MAX_ENTRIES || "10000", 10);
+
+export function isCacheEnabled(): boolean {
+  return CACHE_TTL_HOURS > 0;
+}
+
+// SHA-256 of the document, streamed so large uploads aren't loaded into memory
+export async function hashContent(source: OcrSource): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of openSource(source)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+// Everything that changes what the provider returns for the same file
+export function getCacheOptionsKey(job: OcrJob, provider: string): string {
+  return JSON.stringify({
+    provider,
+    forceOcr: job.forceOcr,
+    preprocess: job.preprocess,
+    pageRanges: job.pageRanges,
+    languages: job.languages,
+    readingOrder: job.readingOrder,
+    modelVersion: job.modelVersion,
+  });
+}
+
+// Interface for OCR result cache operations
+export interface ICacheStorage {
+  getEntry(contentHash: string, optionsKey: string): Promise<OcrCacheEntry | undefined>;
+  putEntry(entry: Omit<InsertOcrCacheEntry, "createdAt" | "lastUsedAt" | "expiresAt">): Promise<void>;
+  evictEntries(): Promise<number>;
+}
+
+class CacheStorage implements ICacheStorage {
+  // Returns an unexpired entry and marks it as recently used
+  async getEntry(contentHash: string, optionsKey: string): Promise<OcrCacheEntry | undefined> {
+    const now = new Date();
+    const [entry] = await db
+      .update(ocrCache)
+      .set({ lastUsedAt: now })
+      .where(
+        and(eq(ocrCache.contentHash, contentHash), eq(ocrCache.optionsKey, optionsKey), gt(ocrCache.expiresAt, now))
+      )
+      .returning();
+    return entry;
+  }
+
+  async putEntry(entry: Omit<InsertOcrCacheEntry, "createdAt" | "lastUsedAt" | "expiresAt">): Promise<void> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + CACHE_TTL_HOURS * 60 * 60 * 1000);
+    await db
+      .insert(ocrCache)
+      .values({ ...entry, createdAt: now, lastUsedAt: now, expiresAt })
+      .onConflictDoUpdate({
+        target: [ocrCache.contentHash, ocrCache.optionsKey],
+        set: { ...entry, createdAt: now, lastUsedAt: now, expiresAt },
+      });
+  }
+
+  // Drop expired entries, then the least recently used ones beyond the size limit
+  async evictEntries(): Promise<number> {
+    const expired = await db
+      .delete(ocrCache)
+      .where(lt(ocrCache.expiresAt, new Date()))
+      .returning({ contentHash: ocrCache.contentHash });
+
+    let trimmed: { contentHash: string }[] = [];
+    if (CACHE_MAX_ENTRIES > 0) {
+      // lastUsedAt of the newest entry that no longer fits
+      const [cutoff] = await db
+        .select({ contentHash: ocrCache.contentHash, lastUsedAt: ocrCache.lastUsedAt })
+        .from(ocrCache)
+        .orderBy(desc(ocrCache.lastUsedAt), desc(ocrCache.contentHash))
+        .limit(1)
+        .offset(CACHE_MAX_ENTRIES);
+
+      if (cutoff) {
+        trimmed = await db
+          .delete(ocrCache)
+          .where(
+            or(
+              lt(ocrCache.lastUsedAt, cutoff.lastUsedAt),
+              and(eq(ocrCache.lastUsedAt, cutoff.lastUsedAt), lte(ocrCache.contentHash, cutoff.contentHash))
+            )
+          )
+          .returning({ contentHash: ocrCache.contentHash });
+      }
+    }
+
+    return expired.length + trimmed.length;
+  }
+}
+
+export const cacheStorage = new CacheStorage();
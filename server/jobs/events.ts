@@ -0,0 +1,45 @@
+import { EventEmitter } from "events";
+import type { OcrJobEvent } from "@shared/schema";
+
+const HISTORY_RETENTION = 60 * 1000; // Keep finished job history for late subscribers
+
+type JobEventListener = (event: OcrJobEvent) => void;
+
+// In-process pub/sub for job progress. Each job keeps its event history so
+// a client that connects (or reconnects) mid-job can replay what it missed.
+class JobEventHub {
+  private emitter = new EventEmitter();
+  private history = new Map<string, OcrJobEvent[]>();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(jobId: string, event: OcrJobEvent): void {
+    const events = this.history.get(jobId) || [];
+    events.push(event);
+    this.history.set(jobId, events);
+    this.emitter.emit(jobId, event);
+
+    if (event.type === "completed" || event.type === "failed") {
+      setTimeout(() => this.history.delete(jobId), HISTORY_RETENTION).unref();
+    }
+  }
+
+  hasHistory(jobId: string): boolean {
+    return this.history.has(jobId);
+  }
+
+  // Replays past events synchronously, then delivers new ones. Returns an unsubscribe function.
+  subscribe(jobId: string, listener: JobEventListener): () => void {
+    for (const event of this.history.get(jobId) || []) {
+      listener(event);
+    }
+    this.emitter.on(jobId, listener);
+    return () => {
+      this.emitter.off(jobId, listener);
+    };
+  }
+}
+
+export const jobEvents = new JobEventHub();
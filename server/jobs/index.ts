@@ -0,0 +1,25 @@
+export { jobStorage, type IJobStorage } from "./storage";
+export { jobEvents } from "./events";
+export { cacheStorage, type ICacheStorage } from "./cache";
+export {
+  registerJobRoutes,
+  toJobResponse,
+  getCorrectedText,
+  parseResultFormat,
+  parsePreprocessSteps,
+  parsePageSelection,
+  parseLanguages,
+  parseReadingOrder,
+  parseModelVersion,
+} from "./routes";
+export {
+  startJobWorker,
+  wakeJobWorker,
+  saveJobInput,
+  removeJobFiles,
+  SUPPORTED_MIME_TYPES,
+  SUPPORTED_FORMATS,
+  UPLOAD_DIR,
+  RESUMABLE_UPLOAD_DIR,
+  MAX_UPLOAD_SIZE,
+} from "./worker";
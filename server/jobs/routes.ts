@@ -0,0 +1,408 @@
+import type { Express, Request } from "express";
+import { mkdir, stat, writeFile } from "fs/promises";
+import path from "path";
+import {
+  OCR_LANGUAGES,
+  OCR_MODEL_VERSIONS,
+  OCR_READING_ORDERS,
+  OCR_RESULT_FORMATS,
+  PREPROCESS_STEPS,
+  type OcrCorrections,
+  type OcrJob,
+  type OcrJobEvent,
+  type OcrJobResponse,
+  type OcrLanguage,
+  type OcrModelVersion,
+  type OcrPageResult,
+  type OcrReadingOrder,
+  type OcrResultFormat,
+  type PreprocessStep,
+} from "@shared/schema";
+import { getPageConfidence, getPageText, type OcrPage } from "@shared/ocr-document";
+import { parsePageRanges, type PageRange } from "@shared/page-ranges";
+import { EXPORT_FORMATS, exportDocument, renderPageImage, type ExportFormat } from "../ocr";
+import { jobEvents } from "./events";
+import { jobStorage } from "./storage";
+
+const HEARTBEAT_INTERVAL = 15000; // Keep SSE connections alive through proxies
+
+// Page images being rendered, by path, so concurrent requests share one render
+const pageImageRenders = new Map<string, Promise<string | null>>();
+
+export function getPageImagePath(dir: string, pageNumber: number): string {
+  return path.join(dir, `${pageNumber}.png`);
+}
+
+// The image OCR coordinates refer to: the preprocessed page if there is one, else the page render
+function getPageImageUrls(job: OcrJob): string[] | null {
+  const name = job.previewDir ? "preview.png" : job.pageImageDir ? "image.png" : null;
+  if (job.status !== "succeeded" || !name || !job.document) {
+    return null;
+  }
+  return job.document.pages.map((page) => `/api/jobs/${job.id}/pages/${page.pageNumber}/${name}`);
+}
+
+// Path of a viewer page image, rendered into pageImageDir on first request.
+// Null once the job's input is gone (e.g. removed after retention).
+async function renderViewerPage(job: OcrJob, pageImageDir: string, pageNumber: number): Promise<string | null> {
+  const imagePath = getPageImagePath(pageImageDir, pageNumber);
+  if (await stat(imagePath).then(() => true, () => false)) {
+    return imagePath;
+  }
+  if (!job.inputPath) {
+    return null;
+  }
+  const image = await renderPageImage({ path: job.inputPath, size: job.size }, job.mimeType, pageNumber);
+  await mkdir(pageImageDir, { recursive: true });
+  await writeFile(imagePath, image);
+  return imagePath;
+}
+
+function getViewerPageImage(job: OcrJob, pageImageDir: string, pageNumber: number): Promise<string | null> {
+  const imagePath = getPageImagePath(pageImageDir, pageNumber);
+  let rendering = pageImageRenders.get(imagePath);
+  if (!rendering) {
+    rendering = renderViewerPage(job, pageImageDir, pageNumber).finally(() => pageImageRenders.delete(imagePath));
+    pageImageRenders.set(imagePath, rendering);
+  }
+  return rendering;
+}
+
+export function parseResultFormat(value: unknown): OcrResultFormat | undefined {
+  return OCR_RESULT_FORMATS.find((format) => format === value);
+}
+
+// Comma-separated (or repeated) step names, or "all". Returns undefined if any step is unknown.
+export function parsePreprocessSteps(value: unknown): PreprocessStep[] | undefined {
+  const names = [value ?? []]
+    .flat()
+    .flatMap((item) => String(item).split(","))
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (names.includes("all")) {
+    return [...PREPROCESS_STEPS];
+  }
+  if (names.some((name) => !PREPROCESS_STEPS.includes(name as PreprocessStep))) {
+    return undefined;
+  }
+  // Stored in pipeline order so equivalent requests share cache entries
+  return PREPROCESS_STEPS.filter((step) => names.includes(step));
+}
+
+// Comma-separated (or repeated) language codes, or "auto" for none. Returns
+// undefined if any code is unknown. Order is kept: the first is the main language.
+export function parseLanguages(value: unknown): OcrLanguage[] | undefined {
+  const codes = [value ?? []]
+    .flat()
+    .flatMap((item) => String(item).split(","))
+    .map((code) => code.trim())
+    .filter((code) => code && code.toLowerCase() !== "auto");
+  if (codes.some((code) => !Object.hasOwn(OCR_LANGUAGES, code))) {
+    return undefined;
+  }
+  return Array.from(new Set(codes as OcrLanguage[]));
+}
+
+export function parseReadingOrder(value: unknown): OcrReadingOrder | undefined {
+  return OCR_READING_ORDERS.find((order) => order === value);
+}
+
+export function parseModelVersion(value: unknown): OcrModelVersion | undefined {
+  return OCR_MODEL_VERSIONS.find((version) => version === value);
+}
+
+// Page selection such as "1-3,7,10-" (repeated values are joined); empty for
+// every page. Returns undefined if it is malformed.
+export function parsePageSelection(value: unknown): PageRange[] | undefined {
+  return parsePageRanges([value ?? []].flat().map(String).join(",")) ?? undefined;
+}
+
+// The job's text with the user's corrections applied, or null when nothing was corrected
+export function getCorrectedText(job: OcrJob): string | null {
+  if (!job.document || Object.keys(job.corrections).length === 0) {
+    return null;
+  }
+  return job.document.pages
+    .map((page) => job.corrections[page.pageNumber] ?? getPageText(page))
+    .join("\n\n")
+    .trim();
+}
+
+function toPageResult(page: OcrPage, corrections: OcrCorrections): OcrPageResult {
+  return {
+    pageNumber: page.pageNumber,
+    text: getPageText(page),
+    correctedText: corrections[page.pageNumber] ?? null,
+    width: page.width,
+    height: page.height,
+    unit: page.unit,
+    angle: page.angle,
+    method: page.method || "ocr",
+    confidence: getPageConfidence(page),
+  };
+}
+
+export function toJobResponse(job: OcrJob, format: OcrResultFormat = job.format): OcrJobResponse {
+  const succeeded = job.status === "succeeded";
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    filename: job.filename,
+    pages: job.pages,
+    pageMethods: succeeded && job.document ? job.document.pages.map((page) => page.method || "ocr") : null,
+    pageResults:
+      succeeded && job.document ? job.document.pages.map((page) => toPageResult(page, job.corrections)) : null,
+    text: succeeded ? job.text : null,
+    correctedText: succeeded ? getCorrectedText(job) : null,
+    correctedAt: job.correctedAt?.toISOString() || null,
+    ...(succeeded && format === "json" && job.document ? { document: job.document } : {}),
+    searchablePdfUrl: succeeded && job.searchablePdfPath ? `/api/jobs/${job.id}/searchable.pdf` : null,
+    previewUrls:
+      succeeded && job.previewDir && job.document
+        ? job.document.pages.map((page) => `/api/jobs/${job.id}/pages/${page.pageNumber}/preview.png`)
+        : null,
+    pageImageUrls: getPageImageUrls(job),
+    cached: job.cached,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() || null,
+  };
+}
+
+// Event describing a finished job, or null while it is still queued/running
+function toTerminalEvent(job: OcrJob): OcrJobEvent | null {
+  if (job.status === "succeeded") {
+    return { type: "completed", progress: 100, job: toJobResponse(job) };
+  }
+  if (job.status === "failed") {
+    return { type: "failed", progress: 100, error: job.error || "Failed to process file" };
+  }
+  return null;
+}
+
+// Jobs created by a signed-in user are only visible to that user
+async function getVisibleJob(req: Request): Promise<OcrJob | undefined> {
+  const job = await jobStorage.getJob(req.params.id as string);
+  const userId = req.isAuthenticated() && req.user ? (req.user as any).id : null;
+  if (!job || (job.userId && job.userId !== userId)) {
+    return undefined;
+  }
+  return job;
+}
+
+// Register OCR job routes
+export function registerJobRoutes(app: Express): void {
+  // Get job status, progress and (once finished) the extracted text
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const job = await getVisibleJob(req);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      // ?format=json returns the structured document regardless of the format requested at upload
+      res.json(toJobResponse(job, parseResultFormat(req.query.format)));
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+
+  // Download the searchable PDF generated for a finished job
+  app.get("/api/jobs/:id/searchable.pdf", async (req, res) => {
+    try {
+      const job = await getVisibleJob(req);
+      if (!job || job.status !== "succeeded" || !job.searchablePdfPath) {
+        return res.status(404).json({ message: "Searchable PDF not found" });
+      }
+
+      const basename = job.filename.replace(/\.[^/.]+$/, "");
+      res.download(job.searchablePdfPath, `${basename}-searchable.pdf`, (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "The searchable PDF is no longer available" });
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching searchable PDF:", error);
+      res.status(500).json({ message: "Failed to fetch searchable PDF" });
+    }
+  });
+
+  // Page image as it was sent to OCR, for jobs that requested preprocessing
+  app.get("/api/jobs/:id/pages/:page/preview.png", async (req, res) => {
+    try {
+      const page = Number(req.params.page);
+      const job = await getVisibleJob(req);
+      if (!job || job.status !== "succeeded" || !job.previewDir || !Number.isInteger(page) || page < 1) {
+        return res.status(404).json({ message: "Preview not found" });
+      }
+
+      res.sendFile(getPageImagePath(job.previewDir, page), (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "Preview not found" });
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching preview:", error);
+      res.status(500).json({ message: "Failed to fetch preview" });
+    }
+  });
+
+  // Page rendered for the side-by-side result viewer
+  app.get("/api/jobs/:id/pages/:page/image.png", async (req, res) => {
+    try {
+      const page = Number(req.params.page);
+      const job = await getVisibleJob(req);
+      if (
+        !job ||
+        job.status !== "succeeded" ||
+        !job.pageImageDir ||
+        !job.document?.pages.some((item) => item.pageNumber === page)
+      ) {
+        return res.status(404).json({ message: "Page image not found" });
+      }
+
+      const imagePath = await getViewerPageImage(job, job.pageImageDir, page);
+      if (!imagePath) {
+        return res.status(404).json({ message: "Page image not found" });
+      }
+      res.sendFile(imagePath, (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "Page image not found" });
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching page image:", error);
+      res.status(500).json({ message: "Failed to fetch page image" });
+    }
+  });
+
+  // Save the user's correction of one page's text. Sending null, or the OCR text
+  // itself, removes the correction; the OCR output is never modified.
+  app.put("/api/jobs/:id/pages/:page/correction", async (req, res) => {
+    try {
+      const pageNumber = Number(req.params.page);
+      const job = await getVisibleJob(req);
+      const page =
+        job?.status === "succeeded" ? job.document?.pages.find((item) => item.pageNumber === pageNumber) : undefined;
+      if (!job || !page) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
+      const text = req.body?.text;
+      if (text !== null && typeof text !== "string") {
+        return res.status(400).json({ message: "text must be a string, or null to restore the OCR output" });
+      }
+
+      const correction = text === null || text === getPageText(page) ? null : text;
+      const updated = await jobStorage.setCorrection(job.id, pageNumber, correction);
+      if (!updated) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      res.json(toJobResponse(updated));
+    } catch (error) {
+      console.error("Error saving correction:", error);
+      res.status(500).json({ message: "Failed to save correction" });
+    }
+  });
+
+  // Export a finished job's structured result as hOCR or ALTO XML
+  app.get("/api/jobs/:id/export/:format", async (req, res) => {
+    try {
+      const format = req.params.format as ExportFormat;
+      if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+        return res.status(400).json({ message: 'Invalid export format. Use "hocr" or "alto".' });
+      }
+
+      const job = await getVisibleJob(req);
+      if (!job || job.status !== "succeeded" || !job.document) {
+        return res.status(404).json({ message: "Job result not found" });
+      }
+
+      const { extension, contentType } = EXPORT_FORMATS[format];
+      const basename = job.filename.replace(/\.[^/.]+$/, "");
+      res.attachment(`${basename}.${extension}`);
+      res.type(contentType);
+      res.send(exportDocument(job.document, format, job.filename));
+    } catch (error) {
+      console.error("Error exporting job:", error);
+      res.status(500).json({ message: "Failed to export job result" });
+    }
+  });
+
+  // Stream job progress as Server-Sent Events until the job finishes
+  app.get("/api/jobs/:id/events", async (req, res) => {
+    let job: OcrJob | undefined;
+    try {
+      job = await getVisibleJob(req);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      return res.status(500).json({ message: "Failed to fetch job" });
+    }
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const jobId = job.id;
+    let closed = false;
+    let unsubscribe = () => {};
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(heartbeat);
+      res.end();
+    };
+
+    const send = (event: OcrJobEvent) => {
+      if (closed) return;
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+      if (event.type === "completed" || event.type === "failed") {
+        close();
+      }
+    };
+
+    req.on("close", close);
+
+    const terminal = toTerminalEvent(job);
+    if (terminal && !jobEvents.hasHistory(jobId)) {
+      send(terminal);
+      return;
+    }
+
+    if (!jobEvents.hasHistory(jobId)) {
+      // Nothing published in this process yet (e.g. after a restart); start from the stored state
+      send({ type: "received", progress: job.progress, filename: job.filename, size: job.size });
+    }
+    unsubscribe = jobEvents.subscribe(jobId, send);
+    // The replay may already have ended the stream, before unsubscribe was assigned
+    if (closed) {
+      unsubscribe();
+      return;
+    }
+
+    // The heartbeat also catches completion by a worker in another process
+    heartbeat = setInterval(async () => {
+      res.write(": heartbeat\n\n");
+      try {
+        const latest = await jobStorage.getJob(jobId);
+        const finished = latest && toTerminalEvent(latest);
+        if (finished) {
+          send(finished);
+        }
+      } catch (error: any) {
+        console.error(`Failed to refresh OCR job ${jobId}:`, error.message);
+      }
+    }, HEARTBEAT_INTERVAL);
+  });
+}
@@ -0,0 +1,168 @@
+import { documents, ocrJobs, type InsertLibraryDocument, type InsertOcrJob, type OcrJob } from "@shared/schema";
+import { db } from "../db";
+import { and, asc, eq, isNotNull, lt, notExists, or, sql } from "drizzle-orm";
+
+// Interface for OCR job storage operations
+export interface IJobStorage {
+  createJob(job: InsertOcrJob): Promise<OcrJob>;
+  getJob(id: string): Promise<OcrJob | undefined>;
+  getBatchJobs(batchId: string): Promise<OcrJob[]>;
+  updateJob(id: string, changes: Partial<InsertOcrJob>): Promise<OcrJob | undefined>;
+  completeJob(id: string, changes: Partial<InsertOcrJob>): Promise<OcrJob | undefined>;
+  updateProgress(id: string, progress: number): Promise<void>;
+  setCorrection(id: string, pageNumber: number, text: string | null): Promise<OcrJob | undefined>;
+  deleteJob(id: string): Promise<void>;
+  claimNextJob(): Promise<OcrJob | undefined>;
+  requeueRunningJobs(): Promise<number>;
+  getExpiredJobs(completedBefore: Date): Promise<OcrJob[]>;
+}
+
+// The library entry for a signed-in user's finished job
+function toLibraryDocument(job: OcrJob & { userId: string }): InsertLibraryDocument {
+  return {
+    userId: job.userId,
+    jobId: job.id,
+    filename: job.filename,
+    size: job.size,
+    contentHash: job.contentHash,
+    pageCount: job.pages ?? 1,
+    options: {
+      searchablePdf: job.searchablePdf,
+      forceOcr: job.forceOcr,
+      preprocess: job.preprocess,
+      pageRanges: job.pageRanges,
+      languages: job.languages,
+      readingOrder: job.readingOrder,
+      modelVersion: job.modelVersion,
+    },
+  };
+}
+
+class JobStorage implements IJobStorage {
+  async createJob(job: InsertOcrJob): Promise<OcrJob> {
+    const [created] = await db.insert(ocrJobs).values(job).returning();
+    return created;
+  }
+
+  async getJob(id: string): Promise<OcrJob | undefined> {
+    const [job] = await db.select().from(ocrJobs).where(eq(ocrJobs.id, id));
+    return job;
+  }
+
+  // Jobs extracted from one ZIP upload, in archive path order
+  async getBatchJobs(batchId: string): Promise<OcrJob[]> {
+    return db.select().from(ocrJobs).where(eq(ocrJobs.batchId, batchId)).orderBy(asc(ocrJobs.batchPath));
+  }
+
+  async updateJob(id: string, changes: Partial<InsertOcrJob>): Promise<OcrJob | undefined> {
+    const [job] = await db
+      .update(ocrJobs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(ocrJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // Mark a job succeeded and, for a signed-in user, save it to their library in
+  // the same transaction, so a finished job is never missing from the library
+  async completeJob(id: string, changes: Partial<InsertOcrJob>): Promise<OcrJob | undefined> {
+    return db.transaction(async (tx) => {
+      const [job] = await tx
+        .update(ocrJobs)
+        .set({ ...changes, status: "succeeded", updatedAt: new Date() })
+        .where(eq(ocrJobs.id, id))
+        .returning();
+      if (job?.userId) {
+        await tx
+          .insert(documents)
+          .values(toLibraryDocument({ ...job, userId: job.userId }))
+          .onConflictDoNothing({ target: documents.jobId });
+      }
+      return job;
+    });
+  }
+
+  // Progress only moves forward while the job is running, so late writes can't undo completion
+  async updateProgress(id: string, progress: number): Promise<void> {
+    await db
+      .update(ocrJobs)
+      .set({ progress, updatedAt: new Date() })
+      .where(and(eq(ocrJobs.id, id), eq(ocrJobs.status, "running"), lt(ocrJobs.progress, progress)));
+  }
+
+  // Store (or with null, drop) the corrected text of one page. The page is
+  // merged into the stored map in SQL so concurrent saves of other pages survive.
+  async setCorrection(id: string, pageNumber: number, text: string | null): Promise<OcrJob | undefined> {
+    const key = String(pageNumber);
+    const corrections =
+      text === null
+        ? sql`${ocrJobs.corrections} - ${key}::text`
+        : sql`${ocrJobs.corrections} || jsonb_build_object(${key}::text, ${text}::text)`;
+    const now = new Date();
+    const [job] = await db
+      .update(ocrJobs)
+      .set({ corrections, correctedAt: now, updatedAt: now })
+      .where(eq(ocrJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    await db.delete(ocrJobs).where(eq(ocrJobs.id, id));
+  }
+
+  // Atomically move the oldest queued job to "running". Returns undefined when
+  // the queue is empty or another worker claimed the candidate first.
+  async claimNextJob(): Promise<OcrJob | undefined> {
+    const [next] = await db
+      .select({ id: ocrJobs.id })
+      .from(ocrJobs)
+      .where(eq(ocrJobs.status, "queued"))
+      .orderBy(asc(ocrJobs.createdAt))
+      .limit(1);
+
+    if (!next) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const [claimed] = await db
+      .update(ocrJobs)
+      .set({ status: "running", progress: 0, startedAt: now, updatedAt: now })
+      .where(and(eq(ocrJobs.id, next.id), eq(ocrJobs.status, "queued")))
+      .returning();
+
+    return claimed ?? (await this.claimNextJob());
+  }
+
+  // Jobs left "running" by a previous process never finished; put them back in the queue
+  async requeueRunningJobs(): Promise<number> {
+    const requeued = await db
+      .update(ocrJobs)
+      .set({ status: "queued", progress: 0, updatedAt: new Date() })
+      .where(eq(ocrJobs.status, "running"))
+      .returning({ id: ocrJobs.id });
+    return requeued.length;
+  }
+
+  // Jobs finished before the cutoff that still have files on disk and aren't in a library
+  async getExpiredJobs(completedBefore: Date): Promise<OcrJob[]> {
+    return db
+      .select()
+      .from(ocrJobs)
+      .where(
+        and(
+          lt(ocrJobs.completedAt, completedBefore),
+          or(
+            isNotNull(ocrJobs.inputPath),
+            isNotNull(ocrJobs.searchablePdfPath),
+            isNotNull(ocrJobs.previewDir),
+            isNotNull(ocrJobs.pageImageDir),
+          ),
+          notExists(db.select({ id: documents.id }).from(documents).where(eq(documents.jobId, ocrJobs.id))),
+        ),
+      );
+  }
+}
+
+export const jobStorage = new JobStorage();
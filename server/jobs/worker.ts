@@ -0,0 +1,387 @@
+import { copyFile, mkdir, readFile, readdir, rename, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { OcrJob, OcrJobEvent } from "@shared/schema";
+import { createTextDocument } from "@shared/ocr-document";
+import {
+  canPreprocess,
+  createSearchablePdf,
+  getOcrProvider,
+  preprocessDocument,
+  readSource,
+  recognizeDocument,
+  toOcrResult,
+  type OcrProgressEvent,
+  type OcrResult,
+  type OcrSource,
+} from "../ocr";
+import { cacheStorage, getCacheOptionsKey, hashContent, isCacheEnabled } from "./cache";
+import { jobEvents } from "./events";
+import { getPageImagePath, toJobResponse } from "./routes";
+import { jobStorage } from "./storage";
+
+const JOB_DIR = process.env.OCR_JOB_DIR || path.join(tmpdir(), "ocr-jobs");
+// Uploads are written here by multer, then moved into JOB_DIR once they become a job
+export const UPLOAD_DIR = path.join(JOB_DIR, "uploads");
+// Resumable uploads are assembled here; unlike UPLOAD_DIR it survives restarts
+export const RESUMABLE_UPLOAD_DIR = path.join(JOB_DIR, "resumable");
+// Files of jobs saved to a library; unlike OCR_JOB_DIR this must survive restarts
+const LIBRARY_DIR = path.resolve(process.env.OCR_DATA_DIR || "data", "library");
+export const MAX_UPLOAD_SIZE = 300 * 1024 * 1024; // 300MB
+const MAX_CONCURRENT_JOBS = parseInt(process.env.OCR_WORKER_CONCURRENCY || "2", 10);
+const SWEEP_INTERVAL = 10000; // Pick up jobs queued by other processes every 10s
+const CACHE_EVICTION_INTERVAL = 60 * 60 * 1000; // Trim the OCR result cache hourly
+const RETENTION_SWEEP_INTERVAL = 60 * 60 * 1000; // Remove files of expired jobs hourly
+// Hours a finished job outside a library keeps its input, searchable PDF and page images
+const JOB_FILE_RETENTION_HOURS = parseFloat(process.env.OCR_JOB_FILE_RETENTION_HOURS || "24");
+
+const NO_TEXT_MESSAGE =
+  "No text could be extracted from this document. The image may not contain readable text or the scan quality may be too low.";
+
+// Types that can be turned into a searchable PDF
+export const SEARCHABLE_PDF_MIME_TYPES = [
+  "application/pdf",
+  "image/png",
+  "image/jpeg",
+  "image/jpg",
+  "image/tiff",
+  "image/webp",
+  "image/gif",
+  "image/bmp",
+  "image/heic",
+];
+
+export const SUPPORTED_MIME_TYPES = [...SEARCHABLE_PDF_MIME_TYPES, "text/plain"];
+// Used in error messages
+export const SUPPORTED_FORMATS = "PDF, PNG, JPG, TIFF, WebP, GIF, BMP, HEIC, TXT, or ZIP";
+
+let activeJobs = 0;
+let started = false;
+
+// Move an uploaded file next to the queue so it survives until the worker picks it up
+export async function saveJobInput(jobId: string, uploadPath: string): Promise<string> {
+  await mkdir(JOB_DIR, { recursive: true });
+  const inputPath = path.join(JOB_DIR, jobId);
+  await rename(uploadPath, inputPath);
+  return inputPath;
+}
+
+// Delete everything a job keeps on disk: its input, searchable PDF and page images
+export async function removeJobFiles(job: OcrJob): Promise<void> {
+  const paths = [job.inputPath, job.searchablePdfPath, job.previewDir, job.pageImageDir];
+  await Promise.all(paths.map((file) => (file ? rm(file, { recursive: true, force: true }) : undefined)));
+}
+
+// Map provider progress onto the job's 0-100 scale: submission and polling
+// fill the first 80%, page results the rest.
+function toJobEvent(event: OcrProgressEvent): OcrJobEvent {
+  switch (event.type) {
+    case "submitted":
+      return { ...event, progress: 20 };
+    case "poll":
+      return {
+        ...event,
+        progress: event.status === "succeeded" ? 80 : 20 + Math.round(60 * (1 - Math.pow(0.9, event.attempt))),
+      };
+    case "page":
+      return { ...event, progress: 80 + Math.round((15 * event.page) / Math.max(event.pageCount, 1)) };
+  }
+}
+
+function reportProgress(jobId: string, event: OcrJobEvent): void {
+  jobEvents.publish(jobId, event);
+  if (event.type !== "page") {
+    jobStorage.updateProgress(jobId, event.progress).catch((error) => {
+      console.error(`Failed to record progress for OCR job ${jobId}:`, error.message);
+    });
+  }
+}
+
+// Signed-in users' jobs are saved to their library, so their files go where they're kept
+function getFileDir(job: OcrJob): string {
+  return job.userId ? LIBRARY_DIR : JOB_DIR;
+}
+
+function getPreviewDir(job: OcrJob): string | null {
+  if (job.preprocess.length === 0 || !canPreprocess(job.mimeType)) {
+    return null;
+  }
+  return path.join(getFileDir(job), `${job.id}-preview`);
+}
+
+// Keep a preprocessing preview as <dir>/<page>.png
+async function savePageImage(dir: string, pageNumber: number, image: Buffer): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await writeFile(getPageImagePath(dir, pageNumber), image);
+}
+
+function recognizeJob(job: OcrJob, source: OcrSource, previewDir: string | null): Promise<OcrResult> {
+  return recognizeDocument(source, job.mimeType, {
+    useTextLayer: !job.forceOcr,
+    pageRanges: job.pageRanges,
+    preprocess: job.preprocess,
+    settings: { languages: job.languages, readingOrder: job.readingOrder, modelVersion: job.modelVersion },
+    onPreprocessedPage: previewDir ? (pageNumber, image) => savePageImage(previewDir, pageNumber, image) : undefined,
+    onProgress: (event) => reportProgress(job.id, toJobEvent(event)),
+  });
+}
+
+// Reuse the result of an identical earlier upload unless the job opted out.
+// Cache failures are logged and never fail the job.
+async function processDocument(
+  job: OcrJob,
+  source: OcrSource,
+  contentHash: string,
+  previewDir: string | null,
+): Promise<{ result: OcrResult; cached: boolean }> {
+  if (job.mimeType === "text/plain") {
+    // TXT files - just return the content directly
+    const text = (await readSource(source)).toString("utf-8");
+    return {
+      result: { text, pages: 1, pageTexts: [text], document: createTextDocument([text], "text") },
+      cached: false,
+    };
+  }
+
+  if (!job.useCache || !isCacheEnabled()) {
+    return { result: await recognizeJob(job, source, previewDir), cached: false };
+  }
+
+  const optionsKey = getCacheOptionsKey(job, getOcrProvider().name);
+
+  const entry = await cacheStorage.getEntry(contentHash, optionsKey).catch((error) => {
+    console.error(`OCR cache lookup failed for job ${job.id}:`, error.message);
+    return undefined;
+  });
+  if (entry) {
+    if (previewDir) {
+      // Previews aren't cached; rendering them again is cheap next to OCR
+      const pageNumbers = entry.document.pages.map((page) => page.pageNumber);
+      await preprocessDocument(source, job.mimeType, job.preprocess, pageNumbers, (pageNumber, image) =>
+        savePageImage(previewDir, pageNumber, image),
+      );
+    }
+    return { result: toOcrResult(entry.document), cached: true };
+  }
+
+  const result = await recognizeJob(job, source, previewDir);
+  await cacheStorage.putEntry({ contentHash, optionsKey, document: result.document }).catch((error) => {
+    console.error(`Failed to cache OCR result for job ${job.id}:`, error.message);
+  });
+  return { result, cached: false };
+}
+
+// Where the result viewer's page renders are cached. They are rendered on first
+// request from the input, which is kept for them; jobs with previews show those.
+function getPageImageDir(job: OcrJob, previewDir: string | null): string | null {
+  if (previewDir || !SEARCHABLE_PDF_MIME_TYPES.includes(job.mimeType)) {
+    return null;
+  }
+  return path.join(getFileDir(job), `${job.id}-pages`);
+}
+
+// Move a kept input into the library: the job is pointed at the copy before the
+// original goes, so it never refers to a file that isn't there
+async function moveInputToLibrary(jobId: string, inputPath: string): Promise<void> {
+  await mkdir(LIBRARY_DIR, { recursive: true });
+  const libraryPath = path.join(LIBRARY_DIR, jobId);
+  await copyFile(inputPath, libraryPath);
+  try {
+    await jobStorage.updateJob(jobId, { inputPath: libraryPath });
+  } catch (error) {
+    await rm(libraryPath, { force: true });
+    throw error;
+  }
+  await rm(inputPath, { force: true });
+}
+
+async function runJob(job: OcrJob): Promise<void> {
+  let keepInput = false;
+  try {
+    if (!job.inputPath) {
+      throw new Error("Uploaded file is no longer available");
+    }
+
+    // The input stays on disk; it is streamed or read only where a step needs it
+    const source: OcrSource = { path: job.inputPath, size: job.size };
+    reportProgress(job.id, { type: "started", progress: 5 });
+
+    const previewDir = getPreviewDir(job);
+    const contentHash = await hashContent(source);
+    const { result, cached } = await processDocument(job, source, contentHash, previewDir);
+
+    let searchablePdfPath: string | null = null;
+    if (job.searchablePdf && SEARCHABLE_PDF_MIME_TYPES.includes(job.mimeType)) {
+      const pageImages = previewDir
+        ? await Promise.all(
+            result.document.pages.map((page) => readFile(getPageImagePath(previewDir, page.pageNumber))),
+          )
+        : undefined;
+      const pdf = await createSearchablePdf(await readSource(source), job.mimeType, result.document, pageImages);
+      await mkdir(getFileDir(job), { recursive: true });
+      searchablePdfPath = path.join(getFileDir(job), `${job.id}.pdf`);
+      await writeFile(searchablePdfPath, pdf);
+    }
+
+    const pageImageDir = getPageImageDir(job, previewDir);
+    const completed = await jobStorage.completeJob(job.id, {
+      progress: 100,
+      text: result.text || NO_TEXT_MESSAGE,
+      pages: result.pages,
+      document: result.document,
+      searchablePdfPath,
+      previewDir,
+      pageImageDir,
+      cached,
+      contentHash,
+      completedAt: new Date(),
+    });
+    if (completed) {
+      keepInput = pageImageDir !== null;
+      jobEvents.publish(job.id, { type: "completed", progress: 100, job: toJobResponse(completed) });
+    }
+  } catch (error: any) {
+    console.error(`OCR job ${job.id} failed:`, error.message);
+    const message = error.message || "Failed to process file";
+    try {
+      await jobStorage.updateJob(job.id, {
+        status: "failed",
+        error: message,
+        completedAt: new Date(),
+      });
+    } catch (updateError: any) {
+      // Left "running"; the next startup requeues it
+      console.error(`Failed to record failure of OCR job ${job.id}:`, updateError.message);
+    }
+    jobEvents.publish(job.id, { type: "failed", progress: 100, error: message });
+  }
+
+  if (job.inputPath && keepInput && job.userId) {
+    try {
+      await moveInputToLibrary(job.id, job.inputPath);
+    } catch (error: any) {
+      console.error(`Failed to move the input of OCR job ${job.id} to the library:`, error.message);
+    }
+  } else if (job.inputPath && !keepInput) {
+    try {
+      await rm(job.inputPath, { force: true });
+      await jobStorage.updateJob(job.id, { inputPath: null });
+    } catch (error: any) {
+      console.error(`Failed to remove the input of OCR job ${job.id}:`, error.message);
+    }
+  }
+}
+
+async function fillWorkerSlots(): Promise<void> {
+  while (activeJobs < MAX_CONCURRENT_JOBS) {
+    // Reserve the slot before awaiting so concurrent wake-ups can't overshoot
+    activeJobs++;
+    let job: OcrJob | undefined;
+    try {
+      job = await jobStorage.claimNextJob();
+    } catch (error: any) {
+      activeJobs--;
+      console.error("Failed to claim OCR job:", error.message);
+      return;
+    }
+
+    if (!job) {
+      activeJobs--;
+      return;
+    }
+
+    const jobId = job.id;
+    runJob(job)
+      .catch((error) => {
+        // runJob records its own failures; this only keeps a stray rejection from crashing the process
+        console.error(`OCR job ${jobId} crashed:`, error.message);
+      })
+      .finally(() => {
+        activeJobs--;
+        wakeJobWorker();
+      });
+  }
+}
+
+// Entries are files from multer and batch-<id> directories from archive
+// extraction. A file that can't be removed is logged rather than blocking startup.
+async function removeStaleUploads(): Promise<void> {
+  const names = await readdir(UPLOAD_DIR).catch(() => [] as string[]);
+  await Promise.all(
+    names.map((name) =>
+      rm(path.join(UPLOAD_DIR, name), { recursive: true, force: true }).catch((error) => {
+        console.error(`Failed to remove stale upload ${name}:`, error.message);
+      }),
+    ),
+  );
+}
+
+// Jobs in a library keep their files until the document is deleted; the others
+// lose them once retention ends. Their text and structured result stay on the job.
+function removeExpiredJobFiles(): void {
+  const cutoff = new Date(Date.now() - JOB_FILE_RETENTION_HOURS * 60 * 60 * 1000);
+  jobStorage
+    .getExpiredJobs(cutoff)
+    .then(async (jobs) => {
+      for (const job of jobs) {
+        await removeJobFiles(job);
+        await jobStorage.updateJob(job.id, {
+          inputPath: null,
+          searchablePdfPath: null,
+          previewDir: null,
+          pageImageDir: null,
+        });
+      }
+      if (jobs.length > 0) {
+        console.log(`Removed the files of ${jobs.length} expired OCR job(s)`);
+      }
+    })
+    .catch((error) => {
+      console.error("Failed to remove expired OCR job files:", error.message);
+    });
+}
+
+function evictCacheEntries(): void {
+  cacheStorage
+    .evictEntries()
+    .then((evicted) => {
+      if (evicted > 0) {
+        console.log(`Evicted ${evicted} OCR cache entr${evicted === 1 ? "y" : "ies"}`);
+      }
+    })
+    .catch((error) => {
+      console.error("Failed to evict OCR cache entries:", error.message);
+    });
+}
+
+// Signal the worker that new work may be available
+export function wakeJobWorker(): void {
+  if (started) {
+    void fillWorkerSlots();
+  }
+}
+
+export async function startJobWorker(): Promise<void> {
+  if (started) return;
+  started = true;
+
+  // Single-instance deployment: uploads left behind by a previous process were never queued
+  await removeStaleUploads();
+
+  // Single-instance deployment: anything still "running" was interrupted by a restart
+  const requeued = await jobStorage.requeueRunningJobs();
+  if (requeued > 0) {
+    console.log(`Requeued ${requeued} interrupted OCR job(s)`);
+  }
+
+  setInterval(wakeJobWorker, SWEEP_INTERVAL).unref();
+  wakeJobWorker();
+
+  setInterval(removeExpiredJobFiles, RETENTION_SWEEP_INTERVAL).unref();
+  removeExpiredJobFiles();
+
+  if (isCacheEnabled()) {
+    setInterval(evictCacheEntries, CACHE_EVICTION_INTERVAL).unref();
+    evictCacheEntries();
+  }
+}
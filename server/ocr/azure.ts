@@ -0,0 +1,124 @@
+import type { OcrDocument, OcrUnit } from "@shared/ocr-document";
+import { formatPageRanges, toPageRanges } from "@shared/page-ranges";
+import { DEFAULT_RETRY_OPTIONS, requestWithRetry, type RetryOptions } from "./http";
+import { getSourceSize, openSource } from "./source";
+import type { OcrPollResult, OcrProvider, OcrProviderLimits, OcrSource, OcrSubmitOptions } from "./types";
+
+// Kept below the Read API's 2000 page / 50MB request limits so each request
+// also finishes within the polling timeout
+const MAX_PAGES_PER_REQUEST = parseInt(process.env.AZURE_MAX_PAGES_PER_REQUEST || "100", 10);
+const MAX_MB_PER_REQUEST = parseInt(process.env.AZURE_MAX_MB_PER_REQUEST || "45", 10);
+
+// Azure Computer Vision Read API v3.2
+export class AzureOcrProvider implements OcrProvider {
+  readonly name = "azure";
+  readonly pollInterval = 1000;
+  readonly limits: OcrProviderLimits = {
+    maxPages: MAX_PAGES_PER_REQUEST,
+    maxBytes: MAX_MB_PER_REQUEST * 1024 * 1024,
+  };
+  readonly supportsPageSelection = true;
+
+  constructor(
+    private endpoint = process.env.AZURE_COGNITIVE_ENDPOINT,
+    private key = process.env.AZURE_COGNITIVE_KEY,
+    private retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  ) {}
+
+  private getCredentials(): { endpoint: string; key: string } {
+    if (!this.endpoint || !this.key) {
+      throw new Error("Azure Cognitive Services credentials are not configured");
+    }
+    return { endpoint: this.endpoint.replace(/\/$/, ""), key: this.key };
+  }
+
+  // Read takes a single language hint; with several it detects the language
+  // per line, which handles mixed-language documents better than one hint
+  private getQuery({ pageNumbers, languages, readingOrder, modelVersion }: OcrSubmitOptions): string {
+    const query = new URLSearchParams();
+    if (pageNumbers) {
+      // Same "1-3,7" syntax as our page ranges
+      query.set("pages", formatPageRanges(toPageRanges(pageNumbers)));
+    }
+    if (languages?.length === 1) {
+      query.set("language", languages[0]);
+    }
+    if (readingOrder) {
+      query.set("readingOrder", readingOrder);
+    }
+    if (modelVersion) {
+      query.set("model-version", modelVersion);
+    }
+    const value = query.toString();
+    return value ? `?${value}` : "";
+  }
+
+  async submit(source: OcrSource, contentType: string, options: OcrSubmitOptions = {}): Promise<string> {
+    const { endpoint, key } = this.getCredentials();
+    const readUrl = `${endpoint}/vision/v3.2/read/analyze${this.getQuery(options)}`;
+
+    const submitResponse = await requestWithRetry(
+      () => ({
+        method: "POST",
+        url: readUrl,
+        data: openSource(source),
+        headers: {
+          "Ocp-Apim-Subscription-Key": key,
+          "Content-Type": contentType === "application/pdf" ? "application/pdf" : "application/octet-stream",
+          "Content-Length": getSourceSize(source),
+        },
+        timeout: 60000,
+        maxBodyLength: Infinity,
+      }),
+      this.retryOptions,
+    );
+
+    const operationLocation = submitResponse.headers["operation-location"];
+    if (!operationLocation) {
+      throw new Error("Failed to get operation location from Azure");
+    }
+    return operationLocation;
+  }
+
+  async poll(operationLocation: string): Promise<OcrPollResult> {
+    const { key } = this.getCredentials();
+    const resultResponse = await requestWithRetry(
+      {
+        method: "GET",
+        url: operationLocation,
+        headers: {
+          "Ocp-Apim-Subscription-Key": key,
+        },
+        timeout: 30000,
+      },
+      this.retryOptions,
+    );
+
+    const result = resultResponse.data;
+    return { status: result.status, raw: result };
+  }
+
+  normalize(result: any): OcrDocument {
+    const readResults = result.analyzeResult?.readResults || [];
+
+    return {
+      provider: this.name,
+      pages: readResults.map((page: any, i: number) => ({
+        pageNumber: page.page ?? i + 1,
+        width: page.width ?? 0,
+        height: page.height ?? 0,
+        unit: (page.unit as OcrUnit) || "pixel",
+        angle: page.angle ?? 0,
+        lines: (page.lines || []).map((line: any) => ({
+          text: line.text,
+          polygon: line.boundingBox || [],
+          words: (line.words || []).map((word: any) => ({
+            text: word.text,
+            polygon: word.boundingBox || [],
+            confidence: word.confidence ?? 1,
+          })),
+        })),
+      })),
+    };
+  }
+}
@@ -0,0 +1,185 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PDFDocument } from "pdf-lib";
+import type { OcrDocument, OcrPage } from "@shared/ocr-document";
+import { parsePageRanges } from "@shared/page-ranges";
+import { recognizeImagePages, recognizePdfPages } from "./chunking";
+import { recognizeDocument } from "./pipeline";
+import { readSource } from "./source";
+import type { OcrProgressEvent, OcrProvider, OcrProviderLimits, OcrSource, OcrSubmitOptions } from "./types";
+
+// Page n of the test PDFs is 100 + n points wide, so a chunk's pages can be
+// traced back to the original document
+async function buildPdf(pageCount: number): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    pdf.addPage([100 + pageNumber, 200]);
+  }
+  return Buffer.from(await pdf.save());
+}
+
+interface Submission {
+  // Original page numbers of the pages the provider was asked to read
+  pages: number[];
+  pageSelection?: number[];
+}
+
+// Reads each page's width back as its original page number and records what was submitted
+class RecordingProvider implements OcrProvider {
+  readonly name = "recording";
+  readonly pollInterval = 0;
+  readonly submissions: Submission[] = [];
+  private results = new Map<string, OcrPage[]>();
+
+  constructor(
+    readonly limits?: OcrProviderLimits,
+    readonly supportsPageSelection = false,
+  ) {}
+
+  async submit(source: OcrSource, contentType: string, { pageNumbers }: OcrSubmitOptions = {}): Promise<string> {
+    const data = await readSource(source);
+    // Image pages carry their page number in their first four bytes
+    const pages =
+      contentType === "application/pdf"
+        ? (await PDFDocument.load(data)).getPages().map((page) => page.getWidth() - 100)
+        : [data.readUInt32BE(0)];
+    this.submissions.push({ pages, pageSelection: pageNumbers });
+
+    const read = pageNumbers ? pages.filter((page) => pageNumbers.includes(page)) : pages;
+    const operationId = String(this.submissions.length);
+    this.results.set(
+      operationId,
+      read.map((original, i) => ({
+        pageNumber: i + 1,
+        width: original,
+        height: 0,
+        unit: "pixel",
+        angle: 0,
+        lines: [{ text: `page ${original}`, polygon: [], words: [] }],
+      })),
+    );
+    return operationId;
+  }
+
+  async poll(operationId: string) {
+    return { status: "succeeded" as const, raw: this.results.get(operationId) };
+  }
+
+  normalize(raw: unknown): OcrDocument {
+    return { provider: this.name, pages: raw as OcrPage[] };
+  }
+}
+
+// Each result page should carry the number of the page it was read from
+function assertPages(pages: OcrPage[], expected: number[]) {
+  assert.deepEqual(
+    pages.map((page) => page.pageNumber),
+    expected,
+  );
+  assert.deepEqual(
+    pages.map((page) => page.width),
+    expected,
+  );
+}
+
+test("a selection that fits is sent as one chunk of the selected pages", async () => {
+  const provider = new RecordingProvider();
+  const result = await recognizePdfPages(await buildPdf(9), [2, 3, 7, 8, 9], { provider });
+
+  assert.deepEqual(provider.submissions, [{ pages: [2, 3, 7, 8, 9], pageSelection: undefined }]);
+  assertPages(result.document.pages, [2, 3, 7, 8, 9]);
+});
+
+test("selected pages are split into chunks of the provider's page limit", async () => {
+  const provider = new RecordingProvider({ maxPages: 2, maxBytes: Infinity });
+  const result = await recognizePdfPages(await buildPdf(9), [2, 3, 7, 8, 9], { provider });
+
+  assert.deepEqual(
+    provider.submissions.map((submission) => submission.pages),
+    [[2, 3], [7, 8], [9]],
+  );
+  assertPages(result.document.pages, [2, 3, 7, 8, 9]);
+});
+
+test("chunks over the byte limit are halved", async () => {
+  const pdf = await buildPdf(4);
+  const provider = new RecordingProvider({ maxPages: 4, maxBytes: pdf.length - 1 });
+  const result = await recognizePdfPages(pdf, null, { provider });
+
+  assert.ok(provider.submissions.length > 1);
+  assert.deepEqual(provider.submissions.flatMap((submission) => submission.pages), [1, 2, 3, 4]);
+  assertPages(result.document.pages, [1, 2, 3, 4]);
+});
+
+test("providers with page selection get the whole file and the selected pages", async () => {
+  const provider = new RecordingProvider(undefined, true);
+  const result = await recognizePdfPages(await buildPdf(5), [2, 4, 5], { provider });
+
+  assert.deepEqual(provider.submissions, [{ pages: [1, 2, 3, 4, 5], pageSelection: [2, 4, 5] }]);
+  assertPages(result.document.pages, [2, 4, 5]);
+});
+
+test("progress reports pages by their number in the original document", async () => {
+  const provider = new RecordingProvider({ maxPages: 2, maxBytes: Infinity });
+  const events: OcrProgressEvent[] = [];
+  await recognizePdfPages(await buildPdf(12), [10, 11, 12], { provider, onProgress: (event) => events.push(event) });
+
+  assert.deepEqual(
+    events.flatMap((event) => (event.type === "page" ? [[event.page, event.pageCount]] : [])),
+    [
+      [10, 12],
+      [11, 12],
+      [12, 12],
+    ],
+  );
+});
+
+test("image pages are rendered and read one at a time", async () => {
+  const provider = new RecordingProvider();
+  const rendered: number[] = [];
+  const renderPage = async (pageNumber: number) => {
+    rendered.push(pageNumber);
+    const page = Buffer.alloc(4);
+    page.writeUInt32BE(pageNumber);
+    return page;
+  };
+  const result = await recognizeImagePages(6, [2, 5, 6], renderPage, { provider });
+
+  assert.deepEqual(rendered.sort((a, b) => a - b), [2, 5, 6]);
+  assert.equal(provider.submissions.length, 3);
+  assert.deepEqual(
+    result.document.pages.map((page) => page.pageNumber),
+    [2, 5, 6],
+  );
+});
+
+test("open and overlapping ranges past the end select the pages that exist", async () => {
+  const provider = new RecordingProvider({ maxPages: 3, maxBytes: Infinity });
+  const result = await recognizeDocument(await buildPdf(9), "application/pdf", {
+    provider,
+    useTextLayer: false,
+    pageRanges: parsePageRanges("8-12,2-4,3-5,9-")!,
+  });
+
+  assert.deepEqual(
+    provider.submissions.map((submission) => submission.pages),
+    [
+      [2, 3, 4],
+      [5, 8, 9],
+    ],
+  );
+  assertPages(result.document.pages, [2, 3, 4, 5, 8, 9]);
+});
+
+test("a selection entirely past the end fails", async () => {
+  const provider = new RecordingProvider();
+  await assert.rejects(
+    recognizeDocument(await buildPdf(3), "application/pdf", {
+      provider,
+      useTextLayer: false,
+      pageRanges: parsePageRanges("5-")!,
+    }),
+    /has 3 page\(s\), none of which are in the selected range 5-/,
+  );
+  assert.deepEqual(provider.submissions, []);
+});
@@ -0,0 +1,167 @@
+import type { PDFDocument } from "pdf-lib";
+import type { OcrPage } from "@shared/ocr-document";
+import { TerminalHttpError } from "./http";
+import { extractPdfPages, loadPdf } from "./pdf";
+import { getOcrProvider, recognize, toOcrResult, type RecognizeOptions } from "./recognize";
+import { getSourceSize, readSource } from "./source";
+import type { OcrResult, OcrSource } from "./types";
+
+const CHUNK_CONCURRENCY = parseInt(process.env.OCR_CHUNK_CONCURRENCY || "3", 10);
+const CHUNK_ATTEMPTS = parseInt(process.env.OCR_CHUNK_RETRIES || "2", 10) + 1;
+
+interface DocumentChunk {
+  pageNumbers: number[]; // 1-based page numbers in the original document
+  data: OcrSource;
+  contentType: string;
+  // data is the whole document and the provider reads only pageNumbers from it
+  pageSelection?: boolean;
+}
+
+function describePages(pageNumbers: number[]): string {
+  const first = pageNumbers[0];
+  const last = pageNumbers[pageNumbers.length - 1];
+  return first === last ? `page ${first}` : `pages ${first}-${last}`;
+}
+
+// Extract a group of pages as its own PDF, halving the group until each part
+// fits within the provider's size limit.
+async function buildChunks(source: PDFDocument, pageNumbers: number[], maxBytes: number): Promise<DocumentChunk[]> {
+  const chunk = await extractPdfPages(source, pageNumbers);
+  if (chunk.length <= maxBytes) {
+    return [{ pageNumbers, data: chunk, contentType: "application/pdf" }];
+  }
+  if (pageNumbers.length === 1) {
+    throw new Error(
+      `Page ${pageNumbers[0]} is ${(chunk.length / (1024 * 1024)).toFixed(1)}MB, which exceeds the OCR provider's size limit`,
+    );
+  }
+
+  const middle = Math.ceil(pageNumbers.length / 2);
+  return [
+    ...(await buildChunks(source, pageNumbers.slice(0, middle), maxBytes)),
+    ...(await buildChunks(source, pageNumbers.slice(middle), maxBytes)),
+  ];
+}
+
+async function recognizeChunk(chunk: DocumentChunk, pageCount: number, options: RecognizeOptions): Promise<OcrPage[]> {
+  const { onProgress } = options;
+  let lastError: any;
+
+  for (let attempt = 1; attempt <= CHUNK_ATTEMPTS; attempt++) {
+    try {
+      const result = await recognize(chunk.data, chunk.contentType, {
+        ...options,
+        pageNumbers: chunk.pageSelection ? chunk.pageNumbers : undefined,
+        // Report pages by their number in the original document
+        onProgress: (event) =>
+          onProgress?.(
+            event.type === "page" ? { ...event, page: chunk.pageNumbers[event.page - 1], pageCount } : event,
+          ),
+      });
+      return result.document.pages.map((page, i) => ({ ...page, pageNumber: chunk.pageNumbers[i] }));
+    } catch (error: any) {
+      lastError = error;
+      console.error(
+        `OCR of ${describePages(chunk.pageNumbers)} failed (attempt ${attempt}/${CHUNK_ATTEMPTS}):`,
+        error.message,
+      );
+      // Rejected input won't be accepted on a second try either
+      if (error instanceof TerminalHttpError) break;
+    }
+  }
+
+  throw new Error(`OCR failed for ${describePages(chunk.pageNumbers)}: ${lastError?.message || "Unknown error"}`);
+}
+
+// Run tasks with at most `limit` in flight, preserving result order.
+// No new tasks start once one has failed.
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, async () => {
+    while (next < items.length && !failed) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+// OCR selected pages of a PDF (all pages when omitted), chunking the
+// document when it exceeds what the provider accepts in one request.
+export async function recognizePdfPages(
+  data: OcrSource,
+  pageNumbers: number[] | null,
+  options: RecognizeOptions = {},
+): Promise<OcrResult> {
+  const provider = options.provider ?? getOcrProvider();
+  const source = await loadPdf(await readSource(data));
+  const pageCount = source.getPageCount();
+  const selected = pageNumbers ?? Array.from({ length: pageCount }, (_, i) => i + 1);
+  const maxPages = provider.limits?.maxPages ?? Infinity;
+  const maxBytes = provider.limits?.maxBytes ?? Infinity;
+  const chunkOptions = { ...options, provider };
+
+  // Send the original file untouched when it already fits. Providers that
+  // read selected pages get it with the selection instead of a split-out copy.
+  const pageSelection = selected.length < pageCount;
+  if (
+    (!pageSelection || provider.supportsPageSelection) &&
+    selected.length <= maxPages &&
+    getSourceSize(data) <= maxBytes
+  ) {
+    const pages = await recognizeChunk(
+      { pageNumbers: selected, data, contentType: "application/pdf", pageSelection },
+      pageCount,
+      chunkOptions,
+    );
+    return toOcrResult({ provider: provider.name, pages });
+  }
+
+  const groups: number[][] = [];
+  const groupSize = Number.isFinite(maxPages) ? maxPages : selected.length;
+  for (let i = 0; i < selected.length; i += groupSize) {
+    groups.push(selected.slice(i, i + groupSize));
+  }
+
+  // Chunks are extracted lazily so only `CHUNK_CONCURRENCY` of them are in memory at once
+  const groupPages = await mapWithConcurrency(groups, CHUNK_CONCURRENCY, async (group) => {
+    const pages: OcrPage[] = [];
+    for (const chunk of await buildChunks(source, group, maxBytes)) {
+      pages.push(...(await recognizeChunk(chunk, pageCount, chunkOptions)));
+    }
+    return pages;
+  });
+
+  return toOcrResult({ provider: provider.name, pages: groupPages.flat() });
+}
+
+// OCR selected pages of a multi-page image (all pages when omitted) one page
+// at a time. `renderPage` decodes a 1-based page to PNG and is only called
+// when that page is about to be submitted.
+export async function recognizeImagePages(
+  pageCount: number,
+  pageNumbers: number[] | null,
+  renderPage: (pageNumber: number) => Promise<Buffer>,
+  options: RecognizeOptions = {},
+): Promise<OcrResult> {
+  const provider = options.provider ?? getOcrProvider();
+  const chunkOptions = { ...options, provider };
+  const selected = pageNumbers ?? Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  const pages = await mapWithConcurrency(selected, CHUNK_CONCURRENCY, async (pageNumber) => {
+    const data = await renderPage(pageNumber);
+    return recognizeChunk({ pageNumbers: [pageNumber], data, contentType: "image/png" }, pageCount, chunkOptions);
+  });
+
+  return toOcrResult({ provider: provider.name, pages: pages.flat() });
+}
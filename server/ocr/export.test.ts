@@ -0,0 +1,152 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "fs/promises";
+import path from "path";
+import { DOMParser } from "@xmldom/xmldom";
+import { validateXML } from "xmllint-wasm";
+import type { OcrDocument } from "@shared/ocr-document";
+import { toAlto, toHocr } from "./export";
+
+const ALTO_SCHEMA = path.join(import.meta.dirname, "fixtures", "alto-4-subset.xsd");
+const HOCR_CLASSES = ["ocr_page", "ocr_line", "ocrx_word"];
+const SPECIAL_TEXT = `<Tom & "Jerry's">`;
+const FILENAME = `scan "1" & <2>.png`;
+
+// Two pages: pixel coordinates with text that needs escaping, and an inch-based page
+const DOCUMENT: OcrDocument = {
+  provider: "fake & <test>",
+  pages: [
+    {
+      pageNumber: 1,
+      width: 1000,
+      height: 800,
+      unit: "pixel",
+      angle: 0,
+      lines: [
+        {
+          text: `Hello ${SPECIAL_TEXT}`,
+          polygon: [10, 20, 300, 20, 300, 60, 10, 60],
+          words: [
+            { text: "Hello", polygon: [10, 20, 100, 20, 100, 60, 10, 60], confidence: 0.99 },
+            { text: SPECIAL_TEXT, polygon: [110, 20, 300, 20, 300, 60, 110, 60], confidence: 0.5 },
+          ],
+        },
+        { text: "", polygon: [], words: [] },
+      ],
+    },
+    {
+      pageNumber: 2,
+      width: 8.5,
+      height: 11,
+      unit: "inch",
+      angle: 1.5,
+      lines: [
+        {
+          text: "Inches",
+          polygon: [1, 1, 2, 1, 2, 1.5, 1, 1.5],
+          words: [{ text: "Inches", polygon: [1, 1, 2, 1, 2, 1.5, 1, 1.5], confidence: 1 }],
+        },
+      ],
+    },
+  ],
+};
+
+function parse(xml: string): Document {
+  return new DOMParser().parseFromString(xml, "application/xml") as unknown as Document;
+}
+
+function byClass(document: Document, className: string): Element[] {
+  return Array.from(document.getElementsByTagName("*")).filter((element) =>
+    (element.getAttribute("class") ?? "").split(" ").includes(className),
+  );
+}
+
+test("ALTO export validates against the ALTO v4 schema", async () => {
+  const schema = await readFile(ALTO_SCHEMA, "utf-8");
+  const result = await validateXML({
+    xml: { fileName: "export.xml", contents: toAlto(DOCUMENT, FILENAME) },
+    schema: { fileName: "alto.xsd", contents: schema },
+  });
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.valid, true);
+});
+
+test("ALTO export escapes special characters in text and names", () => {
+  const alto = parse(toAlto(DOCUMENT, FILENAME));
+  const strings = Array.from(alto.getElementsByTagName("String"));
+  assert.deepEqual(
+    strings.map((string) => string.getAttribute("CONTENT")),
+    ["Hello", SPECIAL_TEXT, "Inches"],
+  );
+  assert.equal(alto.getElementsByTagName("fileName")[0].textContent, FILENAME);
+  assert.equal(alto.getElementsByTagName("softwareName")[0].textContent, DOCUMENT.provider);
+});
+
+test("ALTO export scales inch-based pages to 300 DPI pixels", () => {
+  const alto = parse(toAlto(DOCUMENT, FILENAME));
+  const page = alto.getElementsByTagName("Page")[1];
+  assert.equal(page.getAttribute("WIDTH"), "2550");
+  assert.equal(page.getAttribute("HEIGHT"), "3300");
+  const string = page.getElementsByTagName("String")[0];
+  assert.deepEqual(
+    ["HPOS", "VPOS", "WIDTH", "HEIGHT"].map((name) => string.getAttribute(name)),
+    ["300", "300", "300", "150"],
+  );
+});
+
+test("hOCR export is well-formed XHTML", async () => {
+  // Formatting fails on anything that isn't well-formed XML
+  const result = await validateXML({
+    xml: { fileName: "export.hocr", contents: toHocr(DOCUMENT, FILENAME) },
+    normalization: "format",
+  });
+  assert.deepEqual(result.errors, []);
+  assert.equal(parse(toHocr(DOCUMENT, FILENAME)).documentElement.namespaceURI, "http://www.w3.org/1999/xhtml");
+});
+
+test("hOCR export follows the hOCR 1.2 structure", () => {
+  const hocr = parse(toHocr(DOCUMENT, FILENAME));
+
+  // Every class used is declared in ocr-capabilities
+  const capabilities = Array.from(hocr.getElementsByTagName("meta"))
+    .find((meta) => meta.getAttribute("name") === "ocr-capabilities")
+    ?.getAttribute("content")
+    ?.split(" ");
+  assert.deepEqual(capabilities, HOCR_CLASSES);
+
+  const pages = byClass(hocr, "ocr_page");
+  assert.equal(pages.length, 2);
+  for (const page of pages) {
+    assert.match(page.getAttribute("title") ?? "", /; bbox 0 0 \d+ \d+; ppageno \d+; scan_res 300 300$/);
+  }
+  assert.match(pages[1].getAttribute("title") ?? "", /bbox 0 0 2550 3300/);
+
+  // Lines sit directly in pages and words directly in lines, each with a bbox
+  const lines = byClass(hocr, "ocr_line");
+  assert.equal(lines.length, 2);
+  for (const line of lines) {
+    assert.ok(pages.includes(line.parentNode as Element));
+    assert.match(line.getAttribute("title") ?? "", /^bbox \d+ \d+ \d+ \d+; textangle -?\d+$/);
+  }
+  const words = byClass(hocr, "ocrx_word");
+  for (const word of words) {
+    assert.ok(lines.includes(word.parentNode as Element));
+    assert.match(word.getAttribute("title") ?? "", /^bbox \d+ \d+ \d+ \d+; x_wconf \d+$/);
+  }
+
+  // Ids are unique
+  const ids = [...pages, ...lines, ...words].map((element) => element.getAttribute("id"));
+  assert.equal(new Set(ids).size, ids.length);
+});
+
+test("hOCR export escapes special characters in text and names", () => {
+  const hocr = parse(toHocr(DOCUMENT, FILENAME));
+  const words = byClass(hocr, "ocrx_word");
+  assert.deepEqual(
+    words.map((word) => word.textContent),
+    ["Hello", SPECIAL_TEXT, "Inches"],
+  );
+  assert.equal(words[1].getAttribute("title"), "bbox 110 20 300 60; x_wconf 50");
+  assert.equal(hocr.getElementsByTagName("title")[0].textContent, FILENAME);
+  assert.ok(byClass(hocr, "ocr_page")[0].getAttribute("title")?.startsWith(`image "${FILENAME}";`));
+});
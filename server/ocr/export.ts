@@ -0,0 +1,185 @@
+import type { OcrDocument, OcrPage } from "@shared/ocr-document";
+
+// Exported coordinates are integer pixels; inch-based results are scaled to this resolution
+const EXPORT_DPI = 300;
+
+export const EXPORT_FORMATS = {
+  hocr: { extension: "hocr", contentType: "text/html; charset=utf-8" },
+  alto: { extension: "xml", contentType: "application/xml; charset=utf-8" },
+} as const;
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function getScale(page: OcrPage): number {
+  return page.unit === "inch" ? EXPORT_DPI : 1;
+}
+
+function polygonToBox(polygon: number[], scale: number): Box {
+  if (polygon.length < 2) {
+    return { left: 0, top: 0, right: 0, bottom: 0 };
+  }
+  const xs = polygon.filter((_, i) => i % 2 === 0);
+  const ys = polygon.filter((_, i) => i % 2 === 1);
+  return {
+    left: Math.round(Math.min(...xs) * scale),
+    top: Math.round(Math.min(...ys) * scale),
+    right: Math.round(Math.max(...xs) * scale),
+    bottom: Math.round(Math.max(...ys) * scale),
+  };
+}
+
+function unionBoxes(boxes: Box[]): Box {
+  if (boxes.length === 0) {
+    return { left: 0, top: 0, right: 0, bottom: 0 };
+  }
+  return {
+    left: Math.min(...boxes.map((box) => box.left)),
+    top: Math.min(...boxes.map((box) => box.top)),
+    right: Math.max(...boxes.map((box) => box.right)),
+    bottom: Math.max(...boxes.map((box) => box.bottom)),
+  };
+}
+
+function pageSize(page: OcrPage): { width: number; height: number } {
+  const scale = getScale(page);
+  return { width: Math.round(page.width * scale), height: Math.round(page.height * scale) };
+}
+
+function hocrBbox(box: Box): string {
+  return `bbox ${box.left} ${box.top} ${box.right} ${box.bottom}`;
+}
+
+// hOCR 1.2: ocr_page > ocr_line > ocrx_word, with bbox and x_wconf properties in title attributes
+export function toHocr(document: OcrDocument, filename: string): string {
+  const pages = document.pages.map((page, pageIndex) => {
+    const scale = getScale(page);
+    const { width, height } = pageSize(page);
+    const pageId = pageIndex + 1;
+
+    const lines = page.lines
+      .filter((line) => line.words.length > 0)
+      .map((line, lineIndex) => {
+        const lineId = `${pageId}_${lineIndex + 1}`;
+        const words = line.words.map((word, wordIndex) => {
+          const title = `${hocrBbox(polygonToBox(word.polygon, scale))}; x_wconf ${Math.round(word.confidence * 100)}`;
+          return `     <span class="ocrx_word" id="word_${lineId}_${wordIndex + 1}" title="${title}">${escapeXml(word.text)}</span>`;
+        });
+        const lineTitle = `${hocrBbox(polygonToBox(line.polygon, scale))}; textangle ${Math.round(-page.angle)}`;
+        return [
+          `    <span class="ocr_line" id="line_${lineId}" title="${lineTitle}">`,
+          words.join("\n"),
+          "    </span>",
+        ].join("\n");
+      });
+
+    const pageTitle = `image &quot;${escapeXml(filename)}&quot;; bbox 0 0 ${width} ${height}; ppageno ${pageIndex}; scan_res ${EXPORT_DPI} ${EXPORT_DPI}`;
+    return [`  <div class="ocr_page" id="page_${pageId}" title="${pageTitle}">`, ...lines, "  </div>"].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+    '<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">',
+    " <head>",
+    `  <title>${escapeXml(filename)}</title>`,
+    '  <meta http-equiv="Content-Type" content="text/html;charset=utf-8" />',
+    `  <meta name="ocr-system" content="${escapeXml(document.provider)}" />`,
+    '  <meta name="ocr-capabilities" content="ocr_page ocr_line ocrx_word" />',
+    " </head>",
+    " <body>",
+    ...pages,
+    " </body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function altoPosition(box: Box): string {
+  return `HPOS="${box.left}" VPOS="${box.top}" WIDTH="${box.right - box.left}" HEIGHT="${box.bottom - box.top}"`;
+}
+
+// ALTO v4: one TextBlock per page (providers don't report blocks) holding TextLine > String/SP
+export function toAlto(document: OcrDocument, filename: string): string {
+  const pages = document.pages.map((page, pageIndex) => {
+    const scale = getScale(page);
+    const { width, height } = pageSize(page);
+    const pageId = pageIndex + 1;
+
+    const lines = page.lines
+      .filter((line) => line.words.length > 0)
+      .map((line, lineIndex) => {
+        const lineId = `${pageId}_${lineIndex + 1}`;
+        const wordBoxes = line.words.map((word) => polygonToBox(word.polygon, scale));
+        const lineBox = line.polygon.length > 0 ? polygonToBox(line.polygon, scale) : unionBoxes(wordBoxes);
+
+        const strings = line.words.map((word, wordIndex) => {
+          const string = `          <String ID="string_${lineId}_${wordIndex + 1}" ${altoPosition(wordBoxes[wordIndex])} CONTENT="${escapeXml(word.text)}" WC="${word.confidence.toFixed(3)}"/>`;
+          return wordIndex < line.words.length - 1 ? `${string}\n          <SP/>` : string;
+        });
+
+        const xml = [
+          `        <TextLine ID="line_${lineId}" ${altoPosition(lineBox)}>`,
+          ...strings,
+          "        </TextLine>",
+        ].join("\n");
+        return { box: lineBox, xml };
+      });
+
+    const block = lines.length > 0
+      ? [
+          `      <TextBlock ID="block_${pageId}" ${altoPosition(unionBoxes(lines.map((line) => line.box)))}>`,
+          ...lines.map((line) => line.xml),
+          "      </TextBlock>",
+        ]
+      : [];
+
+    return [
+      `  <Page ID="page_${pageId}" PHYSICAL_IMG_NR="${pageId}" WIDTH="${width}" HEIGHT="${height}">`,
+      `    <PrintSpace HPOS="0" VPOS="0" WIDTH="${width}" HEIGHT="${height}">`,
+      ...block,
+      "    </PrintSpace>",
+      "  </Page>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">',
+    " <Description>",
+    "  <MeasurementUnit>pixel</MeasurementUnit>",
+    "  <sourceImageInformation>",
+    `   <fileName>${escapeXml(filename)}</fileName>`,
+    "  </sourceImageInformation>",
+    '  <Processing ID="OCR_0">',
+    "   <processingCategory>contentGeneration</processingCategory>",
+    "   <processingSoftware>",
+    `    <softwareName>${escapeXml(document.provider)}</softwareName>`,
+    "   </processingSoftware>",
+    "  </Processing>",
+    " </Description>",
+    " <Layout>",
+    ...pages,
+    " </Layout>",
+    "</alto>",
+    "",
+  ].join("\n");
+}
+
+export function exportDocument(document: OcrDocument, format: ExportFormat, filename: string): string {
+  return format === "hocr" ? toHocr(document, filename) : toAlto(document, filename);
+}
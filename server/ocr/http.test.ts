@@ -0,0 +1,113 @@
+import { after, before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import {
+  parseRetryAfter,
+  requestWithRetry,
+  RetryableHttpError,
+  TerminalHttpError,
+  type RetryOptions,
+} from "./http";
+
+// Short delays so retries don't slow the tests down
+const FAST_RETRIES: RetryOptions = { maxRetries: 3, baseDelay: 1, maxDelay: 20 };
+
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+// Answers each request with the next queued response (the last one repeats)
+let responses: StubResponse[] = [];
+let requestCount = 0;
+let server: Server;
+let url: string;
+
+before(async () => {
+  server = createServer((_req, res) => {
+    const response = responses[Math.min(requestCount, responses.length - 1)];
+    requestCount++;
+    res.writeHead(response.status, { "Content-Type": "application/json", ...response.headers });
+    res.end(JSON.stringify(response.body ?? {}));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/analyze`;
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  responses = [];
+  requestCount = 0;
+});
+
+test("retries 429 responses until the request succeeds", async () => {
+  responses = [{ status: 429 }, { status: 429 }, { status: 200, body: { status: "succeeded" } }];
+  const response = await requestWithRetry({ method: "GET", url }, FAST_RETRIES);
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.data, { status: "succeeded" });
+  assert.equal(requestCount, 3);
+});
+
+test("retries 503 responses", async () => {
+  responses = [{ status: 503 }, { status: 200 }];
+  const response = await requestWithRetry({ method: "POST", url, data: { a: 1 } }, FAST_RETRIES);
+  assert.equal(response.status, 200);
+  assert.equal(requestCount, 2);
+});
+
+test("waits at least as long as Retry-After asks", async () => {
+  responses = [{ status: 429, headers: { "Retry-After": "1" } }, { status: 200 }];
+  const started = Date.now();
+  await requestWithRetry({ method: "GET", url }, { maxRetries: 1, baseDelay: 1, maxDelay: 5000 });
+  assert.ok(Date.now() - started >= 950, "the retry came before Retry-After elapsed");
+  assert.equal(requestCount, 2);
+});
+
+test("caps Retry-After at maxDelay", async () => {
+  responses = [{ status: 429, headers: { "Retry-After": "120" } }, { status: 200 }];
+  const started = Date.now();
+  await requestWithRetry({ method: "GET", url }, FAST_RETRIES);
+  assert.ok(Date.now() - started < 1000);
+});
+
+test("throws a RetryableHttpError once the retry limit is reached", async () => {
+  responses = [{ status: 503, headers: { "Retry-After": "0" }, body: { error: { message: "Service busy" } } }];
+  await assert.rejects(requestWithRetry({ method: "GET", url }, { ...FAST_RETRIES, maxRetries: 2 }), (error) => {
+    assert.ok(error instanceof RetryableHttpError);
+    assert.equal(error.status, 503);
+    assert.equal(error.message, "Service busy");
+    assert.equal(error.retryAfter, 0);
+    return true;
+  });
+  assert.equal(requestCount, 3);
+});
+
+test("does not retry other 4xx responses", async () => {
+  for (const status of [400, 401, 404, 415]) {
+    responses = [{ status, body: { error: { message: `Rejected with ${status}` } } }, { status: 200 }];
+    requestCount = 0;
+    await assert.rejects(requestWithRetry({ method: "GET", url }, FAST_RETRIES), (error) => {
+      assert.ok(error instanceof TerminalHttpError);
+      assert.equal(error.status, status);
+      assert.equal(error.message, `Rejected with ${status}`);
+      return true;
+    });
+    assert.equal(requestCount, 1);
+  }
+});
+
+test("parseRetryAfter reads seconds and HTTP dates", () => {
+  const now = Date.parse("Mon, 19 Oct 2026 12:00:00 GMT");
+  assert.equal(parseRetryAfter("5", now), 5000);
+  assert.equal(parseRetryAfter(2, now), 2000);
+  assert.equal(parseRetryAfter("-3", now), 0);
+  assert.equal(parseRetryAfter("Mon, 19 Oct 2026 12:00:30 GMT", now), 30000);
+  assert.equal(parseRetryAfter("Mon, 19 Oct 2026 11:00:00 GMT", now), 0);
+  assert.equal(parseRetryAfter("soon", now), null);
+  assert.equal(parseRetryAfter(undefined, now), null);
+});
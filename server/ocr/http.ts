@@ -0,0 +1,116 @@
+import axios, { type AxiosRequestConfig, type AxiosResponse } from "axios";
+import { Readable } from "stream";
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_NETWORK_ERRORS = new Set(["ECONNRESET", "ECONNREFUSED", "ECONNABORTED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"]);
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelay: number; // ms
+  maxDelay: number; // ms, also caps Retry-After
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: parseInt(process.env.OCR_HTTP_RETRIES || "5", 10),
+  baseDelay: 500,
+  maxDelay: 60000,
+};
+
+// Base class for failed OCR HTTP calls. `message` carries the most useful
+// description available (the provider's error message when it sent one).
+export class OcrHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    readonly body: unknown,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Transient failure (throttling, 5xx, timeouts) that was still failing after all retries
+export class RetryableHttpError extends OcrHttpError {
+  constructor(message: string, status: number | null, body: unknown, readonly retryAfter: number | null) {
+    super(message, status, body, true);
+  }
+}
+
+// Failure that retrying can't fix (bad request, auth, unsupported file)
+export class TerminalHttpError extends OcrHttpError {
+  constructor(message: string, status: number | null, body: unknown) {
+    super(message, status, body, false);
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: unknown, now = Date.now()): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+function toHttpError(error: any): OcrHttpError {
+  if (error instanceof OcrHttpError) return error;
+
+  const response = error.response;
+  const status: number | null = response?.status ?? null;
+  const body = response?.data;
+  const message =
+    body?.error?.message ||
+    (status ? `Request failed with status ${status}` : error.message) ||
+    "Request failed";
+
+  if (status !== null) {
+    return RETRYABLE_STATUSES.has(status)
+      ? new RetryableHttpError(message, status, body, parseRetryAfter(response.headers?.["retry-after"]))
+      : new TerminalHttpError(message, status, body);
+  }
+  if (RETRYABLE_NETWORK_ERRORS.has(error.code)) {
+    return new RetryableHttpError(message, null, undefined, null);
+  }
+  return new TerminalHttpError(message, null, undefined);
+}
+
+// Full jitter: a random delay up to the exponential cap, but never shorter than Retry-After
+export function getRetryDelay(attempt: number, retryAfter: number | null, options: RetryOptions): number {
+  const exponential = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt);
+  const jittered = Math.random() * exponential;
+  return Math.min(options.maxDelay, Math.max(jittered, retryAfter ?? 0));
+}
+
+// axios request that retries transient failures and throws typed errors.
+// Pass a function when the body is a stream so each attempt gets a fresh one.
+export async function requestWithRetry<T = any>(
+  config: AxiosRequestConfig | (() => AxiosRequestConfig),
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): Promise<AxiosResponse<T>> {
+  for (let attempt = 0; ; attempt++) {
+    const request = typeof config === "function" ? config() : config;
+    try {
+      return await axios.request<T>(request);
+    } catch (rawError) {
+      // Release a body stream the failed attempt didn't finish reading
+      if (request.data instanceof Readable) {
+        request.data.destroy();
+      }
+
+      const error = toHttpError(rawError);
+      if (!(error instanceof RetryableHttpError) || attempt >= options.maxRetries) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, error.retryAfter, options);
+      console.warn(
+        `${request.method?.toUpperCase() || "GET"} ${request.url} failed (${error.status ?? error.message}), retrying in ${Math.round(delay)}ms`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
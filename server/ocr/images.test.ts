@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { CONVERTED_IMAGE_TYPES, getImagePageCount, renderImagePage } from "./images";
+
+// 32x24 images, red with a blue top-left quadrant (the second TIFF page and
+// GIF frame are plain green), so channel order and orientation can be checked
+const FIXTURES = path.join(import.meta.dirname, "fixtures", "images");
+const RED = [200, 40, 40];
+const BLUE = [20, 20, 220];
+const GREEN = [40, 160, 40];
+
+const SAMPLES = [
+  { file: "sample.bmp", contentType: "image/bmp", pages: 1 },
+  { file: "sample.heic", contentType: "image/heic", pages: 1 },
+  { file: "two-pages.tiff", contentType: "image/tiff", pages: 2 },
+  { file: "two-frames.gif", contentType: "image/gif", pages: 1 },
+  { file: "sample.webp", contentType: "image/webp", pages: 1 },
+];
+
+function readFixture(file: string): Promise<Buffer> {
+  return readFile(path.join(FIXTURES, file));
+}
+
+// RGB of one pixel of a rendered page
+async function pixelAt(png: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(png).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return Array.from(data.subarray(offset, offset + 3));
+}
+
+// Lossy formats (HEIC, JPEG) only come close to the source colours
+function assertColor(actual: number[], expected: number[], message: string) {
+  assert.ok(
+    actual.every((value, i) => Math.abs(value - expected[i]) <= 24),
+    `${message}: expected about ${expected}, got ${actual}`,
+  );
+}
+
+test("every converted image type has a fixture", () => {
+  assert.deepEqual(SAMPLES.map((sample) => sample.contentType).sort(), [...CONVERTED_IMAGE_TYPES].sort());
+});
+
+for (const { file, contentType, pages } of SAMPLES) {
+  test(`${contentType} is normalised to a PNG of the same size`, async () => {
+    const data = await readFixture(file);
+    assert.equal(await getImagePageCount(data, contentType), pages);
+
+    const png = await renderImagePage(data, contentType, 1);
+    const { format, width, height } = await sharp(png).metadata();
+    assert.equal(format, "png");
+    assert.deepEqual([width, height], [32, 24]);
+    assertColor(await pixelAt(png, 4, 4), BLUE, "top-left");
+    assertColor(await pixelAt(png, 28, 20), RED, "bottom-right");
+  });
+}
+
+test("each TIFF page renders separately", async () => {
+  const png = await renderImagePage(await readFixture("two-pages.tiff"), "image/tiff", 2);
+  const { width, height } = await sharp(png).metadata();
+  assert.deepEqual([width, height], [32, 24]);
+  assertColor(await pixelAt(png, 4, 4), GREEN, "top-left");
+});
+
+test("autoOrient applies the EXIF orientation", async () => {
+  const data = await readFixture("rotated.jpg");
+
+  const stored = await sharp(await renderImagePage(data, "image/jpeg", 1)).metadata();
+  assert.deepEqual([stored.width, stored.height], [32, 24]);
+
+  // Orientation 6 turns the image 90° clockwise, moving the blue quadrant top-right
+  const rotated = await renderImagePage(data, "image/jpeg", 1, true);
+  const { width, height } = await sharp(rotated).metadata();
+  assert.deepEqual([width, height], [24, 32]);
+  assertColor(await pixelAt(rotated, 20, 4), BLUE, "top-right");
+  assertColor(await pixelAt(rotated, 4, 4), RED, "top-left");
+});
@@ -0,0 +1,52 @@
+import bmp from "bmp-js";
+import decodeHeic from "heic-decode";
+import sharp from "sharp";
+
+// Image types that are decoded and re-encoded as PNG before OCR, because not
+// every provider (or pdf-lib, for searchable PDFs) accepts them. TIFF frames
+// each become a page; the other formats are a single page (the first GIF frame).
+export const CONVERTED_IMAGE_TYPES = ["image/tiff", "image/webp", "image/gif", "image/bmp", "image/heic"];
+
+function rawToPng(data: Uint8Array | Uint8ClampedArray, width: number, height: number): Promise<Buffer> {
+  return sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer();
+}
+
+// Decode one 1-based page (frame) to PNG, which every provider and pdf-lib accept.
+// PNG is lossless and stays small for bilevel (e.g. CCITT Group 4) scans. sharp's
+// bundled libvips reads neither BMP nor HEVC-coded HEIC, so those are decoded in JS.
+// autoOrient applies the EXIF orientation, which PNG output would otherwise drop.
+export async function renderImagePage(
+  data: Buffer,
+  contentType: string,
+  pageNumber: number,
+  autoOrient = false,
+): Promise<Buffer> {
+  if (contentType === "image/bmp") {
+    const { width, height, data: abgr } = bmp.decode(data);
+    // bmp-js returns pixels as ABGR
+    const rgba = Buffer.alloc(abgr.length);
+    for (let i = 0; i < abgr.length; i += 4) {
+      rgba[i] = abgr[i + 3];
+      rgba[i + 1] = abgr[i + 2];
+      rgba[i + 2] = abgr[i + 1];
+      rgba[i + 3] = 255;
+    }
+    return rawToPng(rgba, width, height);
+  }
+
+  if (contentType === "image/heic") {
+    const { width, height, data: rgba } = await decodeHeic({ buffer: data });
+    return rawToPng(rgba, width, height);
+  }
+
+  const image = sharp(data, { page: pageNumber - 1 });
+  return (autoOrient ? image.rotate() : image).png().toBuffer();
+}
+
+export async function getImagePageCount(data: Buffer, contentType: string): Promise<number> {
+  if (contentType !== "image/tiff") {
+    return 1;
+  }
+  const { pages } = await sharp(data, { pages: -1 }).metadata();
+  return pages ?? 1;
+}
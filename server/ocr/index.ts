@@ -0,0 +1,10 @@
+export type { OcrProvider, OcrResult, OcrPollResult, OcrProgressEvent, OcrSource, OcrStatus } from "./types";
+export { AzureOcrProvider } from "./azure";
+export { OcrHttpError, RetryableHttpError, TerminalHttpError, requestWithRetry, type RetryOptions } from "./http";
+export { FakeOcrProvider, TesseractOcrProvider } from "./local";
+export { createOcrProvider, getOcrProvider, recognize, toOcrResult, type RecognizeOptions } from "./recognize";
+export { getSourceSize, openSource, readSource } from "./source";
+export { canPreprocess, preprocessDocument, recognizeDocument, type ProcessOptions } from "./pipeline";
+export { createSearchablePdf } from "./searchablePdf";
+export { renderPageImage } from "./pageImages";
+export { exportDocument, toAlto, toHocr, EXPORT_FORMATS, type ExportFormat } from "./export";
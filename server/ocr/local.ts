@@ -0,0 +1,236 @@
+import { spawn } from "child_process";
+import { createHash, randomUUID } from "crypto";
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { rectToPolygon, type OcrDocument, type OcrLine, type OcrPage } from "@shared/ocr-document";
+import type { OcrLanguage } from "@shared/schema";
+import type { Readable } from "stream";
+import { getPdfPageCount } from "./pdf";
+import { openSource, readSource } from "./source";
+import type { OcrPollResult, OcrProvider, OcrSource, OcrSubmitOptions } from "./types";
+
+// Raw result shape shared by the local providers
+interface LocalRawResult {
+  pages: OcrPage[];
+}
+
+function runCommand(command: string, args: string[], input?: Buffer | Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on("data", (chunk) => stdout.push(chunk));
+    child.stderr.on("data", (chunk) => stderr.push(chunk));
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") {
+        reject(new Error(`${command} is not installed or not on PATH`));
+      } else {
+        reject(error);
+      }
+    });
+    child.on("close", (code) => {
+      if (code !== 0) {
+        const message = Buffer.concat(stderr).toString("utf-8").trim();
+        reject(new Error(`${command} exited with code ${code}${message ? `: ${message}` : ""}`));
+        return;
+      }
+      resolve(Buffer.concat(stdout));
+    });
+
+    child.stdin.on("error", () => {
+      // Ignore EPIPE; the close handler reports the real failure
+    });
+    if (input && !Buffer.isBuffer(input)) {
+      input.on("error", (error) => {
+        child.kill();
+        reject(error);
+      });
+      input.pipe(child.stdin);
+    } else {
+      child.stdin.end(input);
+    }
+  });
+}
+
+const FAKE_PAGE_WIDTH = 1000;
+const FAKE_PAGE_HEIGHT = 1400;
+const FAKE_CHAR_WIDTH = 12;
+const FAKE_LINE_HEIGHT = 24;
+
+function layoutFakeLine(text: string, row: number): OcrLine {
+  const top = 100 + row * FAKE_LINE_HEIGHT * 2;
+  let left = 100;
+  const words = text.split(" ").map((word) => {
+    const width = word.length * FAKE_CHAR_WIDTH;
+    const polygon = rectToPolygon(left, top, width, FAKE_LINE_HEIGHT);
+    left += width + FAKE_CHAR_WIDTH;
+    return { text: word, polygon, confidence: 1 };
+  });
+
+  return {
+    text,
+    polygon: rectToPolygon(100, top, left - FAKE_CHAR_WIDTH - 100, FAKE_LINE_HEIGHT),
+    words,
+  };
+}
+
+// Tesseract TSV columns: level page_num block_num par_num line_num word_num left top width height conf text
+function parseTesseractTsv(tsv: string, pageNumber: number): OcrPage {
+  const page: OcrPage = { pageNumber, width: 0, height: 0, unit: "pixel", angle: 0, lines: [] };
+  const lines = new Map<string, OcrLine>();
+
+  for (const row of tsv.split("\n").slice(1)) {
+    const columns = row.split("\t");
+    if (columns.length < 12) continue;
+
+    const [level, , block, paragraph, line, , left, top, width, height, conf] = columns.map(Number);
+    const text = columns.slice(11).join("\t").trim();
+    const polygon = rectToPolygon(left, top, width, height);
+
+    if (level === 1) {
+      page.width = width;
+      page.height = height;
+    } else if (level === 4) {
+      lines.set(`${block}.${paragraph}.${line}`, { text: "", polygon, words: [] });
+    } else if (level === 5 && text) {
+      const parent = lines.get(`${block}.${paragraph}.${line}`);
+      parent?.words.push({ text, polygon, confidence: Math.max(conf, 0) / 100 });
+    }
+  }
+
+  for (const line of Array.from(lines.values())) {
+    if (line.words.length === 0) continue;
+    line.text = line.words.map((word) => word.text).join(" ");
+    page.lines.push(line);
+  }
+  return page;
+}
+
+// Local providers finish their work during submit, so results are kept
+// in memory until the first poll picks them up.
+abstract class LocalOcrProvider implements OcrProvider {
+  abstract readonly name: string;
+  readonly pollInterval = 0;
+  private results = new Map<string, LocalRawResult>();
+
+  protected abstract recognize(source: OcrSource, contentType: string, options: OcrSubmitOptions): Promise<OcrPage[]>;
+
+  async submit(source: OcrSource, contentType: string, options: OcrSubmitOptions = {}): Promise<string> {
+    const pages = await this.recognize(source, contentType, options);
+    const operationId = randomUUID();
+    this.results.set(operationId, { pages });
+    return operationId;
+  }
+
+  async poll(operationId: string): Promise<OcrPollResult> {
+    const raw = this.results.get(operationId);
+    if (!raw) {
+      return { status: "failed" };
+    }
+    this.results.delete(operationId);
+    return { status: "succeeded", raw };
+  }
+
+  normalize(raw: LocalRawResult): OcrDocument {
+    return { provider: this.name, pages: raw.pages };
+  }
+}
+
+// Tesseract traineddata names for the language hints
+const TESSERACT_LANGUAGES: Record<OcrLanguage, string> = {
+  en: "eng",
+  es: "spa",
+  fr: "fra",
+  de: "deu",
+  it: "ita",
+  pt: "por",
+  nl: "nld",
+  pl: "pol",
+  sv: "swe",
+  da: "dan",
+  fi: "fin",
+  no: "nor",
+  cs: "ces",
+  hu: "hun",
+  tr: "tur",
+  la: "lat",
+  ru: "rus",
+  ar: "ara",
+  hi: "hin",
+  ja: "jpn",
+  ko: "kor",
+  "zh-Hans": "chi_sim",
+  "zh-Hant": "chi_tra",
+};
+
+// Tesseract via child process. PDFs are rasterized with pdftoppm (poppler-utils) first.
+// Language hints are combined (eng+fra); without any, TESSERACT_LANG is used.
+export class TesseractOcrProvider extends LocalOcrProvider {
+  readonly name = "tesseract";
+
+  constructor(
+    private tesseractPath = process.env.TESSERACT_PATH || "tesseract",
+    private language = process.env.TESSERACT_LANG || "eng",
+  ) {
+    super();
+  }
+
+  // Run tesseract in TSV mode, which reports a bounding box and confidence per word
+  private async recognizeImage(input: Buffer | Readable, pageNumber: number, language: string): Promise<OcrPage> {
+    const output = await runCommand(this.tesseractPath, ["stdin", "stdout", "-l", language, "tsv"], input);
+    return parseTesseractTsv(output.toString("utf-8"), pageNumber);
+  }
+
+  protected async recognize(
+    source: OcrSource,
+    contentType: string,
+    { languages }: OcrSubmitOptions,
+  ): Promise<OcrPage[]> {
+    const language = languages?.length ? languages.map((code) => TESSERACT_LANGUAGES[code]).join("+") : this.language;
+    if (contentType !== "application/pdf") {
+      return [await this.recognizeImage(openSource(source), 1, language)];
+    }
+
+    const workDir = await mkdtemp(path.join(tmpdir(), "ocr-"));
+    try {
+      await runCommand("pdftoppm", ["-r", "300", "-png", "-", path.join(workDir, "page")], openSource(source));
+      const images = (await readdir(workDir))
+        .filter((name) => name.endsWith(".png"))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+      const pages: OcrPage[] = [];
+      for (const image of images) {
+        pages.push(await this.recognizeImage(await readFile(path.join(workDir, image)), pages.length + 1, language));
+      }
+      return pages;
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+// Deterministic fake for CI and tests: output depends only on the input bytes.
+// Lines are laid out on a fixed grid so geometry-based features have something to work with.
+export class FakeOcrProvider extends LocalOcrProvider {
+  readonly name = "fake";
+
+  protected async recognize(source: OcrSource, contentType: string): Promise<OcrPage[]> {
+    const data = await readSource(source);
+    const digest = createHash("sha256").update(data).digest("hex").slice(0, 16);
+    const pageCount = contentType === "application/pdf" ? await getPdfPageCount(data) : 1;
+
+    return Array.from({ length: pageCount }, (_, i) => ({
+      pageNumber: i + 1,
+      width: FAKE_PAGE_WIDTH,
+      height: FAKE_PAGE_HEIGHT,
+      unit: "pixel",
+      angle: 0,
+      lines: [
+        `Fake OCR page ${i + 1} of ${pageCount}`,
+        `Document ${digest} (${data.length} bytes)`,
+      ].map((text, row) => layoutFakeLine(text, row)),
+    }));
+  }
+}
@@ -0,0 +1,27 @@
+import sharp from "sharp";
+import { renderImagePage } from "./images";
+import { renderPdfPages } from "./pdf";
+import { readSource } from "./source";
+import type { OcrSource } from "./types";
+
+// Width of the page images shown next to the text in the result viewer
+const PAGE_IMAGE_WIDTH = parseInt(process.env.OCR_PAGE_IMAGE_WIDTH || "1200", 10);
+
+// Render one page of a PDF or image as a PNG for the result viewer. Images are
+// only scaled, so OCR coordinates (relative to the page size) still line up.
+export async function renderPageImage(source: OcrSource, contentType: string, pageNumber: number): Promise<Buffer> {
+  const data = await readSource(source);
+  if (contentType === "application/pdf") {
+    let image: Buffer | undefined;
+    await renderPdfPages(data, [pageNumber], PAGE_IMAGE_WIDTH, async (_pageNumber, page) => {
+      image = page;
+    });
+    if (!image) {
+      throw new Error(`Page ${pageNumber} could not be rendered`);
+    }
+    return image;
+  }
+
+  const page = await renderImagePage(data, contentType, pageNumber);
+  return sharp(page).resize({ width: PAGE_IMAGE_WIDTH, withoutEnlargement: true }).png().toBuffer();
+}
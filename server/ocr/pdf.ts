@@ -0,0 +1,85 @@
+import { PDFDocument } from "pdf-lib";
+import { PDFParse } from "pdf-parse";
+
+const POINTS_PER_INCH = 72;
+
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+// Embedded text per page (empty string for pages without a text layer)
+export async function readPdfTextLayer(data: Buffer): Promise<string[]> {
+  // pdf.js takes ownership of the buffer it is given, so hand it a copy
+  const parser = new PDFParse({ data: new Uint8Array(data) });
+  try {
+    const result = await parser.getText();
+    const texts = Array.from({ length: result.total }, () => "");
+    for (const page of result.pages) {
+      texts[page.num - 1] = page.text;
+    }
+    return texts;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Page sizes in inches, honouring /Rotate so they match what OCR providers report
+export async function getPdfPageSizes(data: Buffer): Promise<PdfPageSize[]> {
+  const pdf = await loadPdf(data);
+  return pdf.getPages().map((page) => {
+    const { width, height } = page.getSize();
+    const rotated = page.getRotation().angle % 180 !== 0;
+    return {
+      width: (rotated ? height : width) / POINTS_PER_INCH,
+      height: (rotated ? width : height) / POINTS_PER_INCH,
+    };
+  });
+}
+
+export function loadPdf(data: Buffer): Promise<PDFDocument> {
+  return PDFDocument.load(data, { ignoreEncryption: true });
+}
+
+export async function getPdfPageCount(data: Buffer): Promise<number> {
+  const pdf = await loadPdf(data);
+  return pdf.getPageCount();
+}
+
+// Copy the given 1-based pages, in order, into a new PDF. Callers splitting one
+// document many times should pass an already loaded PDFDocument.
+export async function extractPdfPages(data: Buffer | PDFDocument, pageNumbers: number[]): Promise<Buffer> {
+  const source = data instanceof PDFDocument ? data : await loadPdf(data);
+  const target = await PDFDocument.create();
+  const pages = await target.copyPages(source, pageNumbers.map((pageNumber) => pageNumber - 1));
+  for (const page of pages) {
+    target.addPage(page);
+  }
+  return Buffer.from(await target.save());
+}
+
+// Render 1-based pages to PNG at the given pixel width, one page at a time so
+// only one image is held in memory
+export async function renderPdfPages(
+  data: Buffer,
+  pageNumbers: number[],
+  width: number,
+  onPage: (pageNumber: number, image: Buffer) => Promise<void>,
+): Promise<void> {
+  const parser = new PDFParse({ data: new Uint8Array(data) });
+  try {
+    for (const pageNumber of pageNumbers) {
+      const { pages } = await parser.getScreenshot({
+        partial: [pageNumber],
+        desiredWidth: width,
+        imageDataUrl: false,
+        imageBuffer: true,
+      });
+      if (pages[0]) {
+        await onPage(pageNumber, Buffer.from(pages[0].data));
+      }
+    }
+  } finally {
+    await parser.destroy();
+  }
+}
@@ -0,0 +1,168 @@
+import { createTextDocument, type OcrPage } from "@shared/ocr-document";
+import { formatPageRanges, resolvePageRanges, type PageRange } from "@shared/page-ranges";
+import type { PreprocessStep } from "@shared/schema";
+import { recognizeImagePages, recognizePdfPages } from "./chunking";
+import { CONVERTED_IMAGE_TYPES, getImagePageCount, renderImagePage } from "./images";
+import { getPdfPageCount, getPdfPageSizes, readPdfTextLayer } from "./pdf";
+import { preprocessImage } from "./preprocess";
+import { recognize, toOcrResult, type RecognizeOptions } from "./recognize";
+import { readSource } from "./source";
+import type { OcrResult, OcrSource } from "./types";
+
+// A page counts as born-digital when its text layer has at least this many non-whitespace characters
+const MIN_TEXT_LAYER_CHARS = parseInt(process.env.PDF_TEXT_LAYER_MIN_CHARS || "20", 10);
+
+export interface ProcessOptions extends RecognizeOptions {
+  // Use embedded PDF text where available instead of OCR (default: true)
+  useTextLayer?: boolean;
+  // Pages of a PDF or multi-page image to process (default: every page)
+  pageRanges?: PageRange[];
+  // Image clean-up before OCR; ignored for PDFs and text
+  preprocess?: PreprocessStep[];
+  // Receives each preprocessed page exactly as it is sent to the provider
+  onPreprocessedPage?: (pageNumber: number, image: Buffer) => Promise<void>;
+}
+
+function hasUsableText(text: string): boolean {
+  return text.replace(/\s/g, "").length >= MIN_TEXT_LAYER_CHARS;
+}
+
+// Page numbers selected by the ranges; fails when none of them exist in the document
+function selectPages(pageRanges: PageRange[], pageCount: number): number[] {
+  const pageNumbers = resolvePageRanges(pageRanges, pageCount);
+  if (pageNumbers.length === 0) {
+    throw new Error(
+      `The document has ${pageCount} page(s), none of which are in the selected range ${formatPageRanges(pageRanges)}`,
+    );
+  }
+  return pageNumbers;
+}
+
+async function readTextLayerSafely(data: Buffer): Promise<string[] | null> {
+  try {
+    return await readPdfTextLayer(data);
+  } catch (error: any) {
+    console.error("Failed to read PDF text layer, falling back to OCR:", error.message);
+    return null;
+  }
+}
+
+// OCR only the selected pages of a PDF that lack a usable text layer and merge
+// them, in page order, with the embedded text of the remaining pages.
+async function recognizePdf(data: Buffer, pageRanges: PageRange[], options: RecognizeOptions): Promise<OcrResult> {
+  const texts = await readTextLayerSafely(data);
+  if (!texts || texts.length === 0) {
+    const selected = pageRanges.length > 0 ? selectPages(pageRanges, await getPdfPageCount(data)) : null;
+    return recognizePdfPages(data, selected, options);
+  }
+
+  const pageCount = texts.length;
+  const selected = selectPages(pageRanges, pageCount);
+  const ocrPageNumbers = selected.filter((pageNumber) => !hasUsableText(texts[pageNumber - 1]));
+
+  if (ocrPageNumbers.length === selected.length) {
+    return recognizePdfPages(data, selected, options);
+  }
+
+  const { onProgress } = options;
+  const sizes = await getPdfPageSizes(data);
+  const pages: OcrPage[] = [];
+
+  for (const pageNumber of selected) {
+    const text = texts[pageNumber - 1];
+    if (!hasUsableText(text)) continue;
+
+    const [page] = createTextDocument([text.trim()], "text-layer").pages;
+    pages.push({
+      ...page,
+      pageNumber,
+      width: sizes[pageNumber - 1]?.width ?? 0,
+      height: sizes[pageNumber - 1]?.height ?? 0,
+      unit: "inch",
+      method: "text-layer",
+    });
+    onProgress?.({ type: "page", page: pageNumber, pageCount, text: text.trim(), method: "text-layer" });
+  }
+
+  let provider = "text-layer";
+  if (ocrPageNumbers.length > 0) {
+    const result = await recognizePdfPages(data, ocrPageNumbers, options);
+    provider = result.document.provider;
+    pages.push(...result.document.pages);
+  }
+
+  pages.sort((a, b) => a.pageNumber - b.pageNumber);
+  return toOcrResult({ provider, pages });
+}
+
+export function canPreprocess(contentType: string): boolean {
+  return contentType.startsWith("image/");
+}
+
+// Decode an image page to PNG and apply the requested clean-up steps
+async function renderPage(
+  data: Buffer,
+  contentType: string,
+  pageNumber: number,
+  steps: PreprocessStep[],
+): Promise<Buffer> {
+  const page = await renderImagePage(data, contentType, pageNumber, steps.includes("rotate"));
+  return steps.length > 0 ? preprocessImage(page, steps) : page;
+}
+
+// Render preprocessed pages of an image without OCRing them, e.g. to
+// recreate previews for a cached result
+export async function preprocessDocument(
+  source: OcrSource,
+  contentType: string,
+  steps: PreprocessStep[],
+  pageNumbers: number[],
+  onPage: (pageNumber: number, image: Buffer) => Promise<void>,
+): Promise<void> {
+  const data = await readSource(source);
+  for (const pageNumber of pageNumbers) {
+    await onPage(pageNumber, await renderPage(data, contentType, pageNumber, steps));
+  }
+}
+
+// Entry point for the job worker: picks the cheapest way to get text out of a
+// document. PNG and JPEG are streamed to the provider unless they are
+// preprocessed; PDFs are parsed in memory and other image formats are
+// converted to one PNG per page (TIFF frame). Page ranges are resolved here,
+// once the page count is known.
+export async function recognizeDocument(
+  source: OcrSource,
+  contentType: string,
+  { useTextLayer = true, pageRanges = [], preprocess = [], onPreprocessedPage, ...options }: ProcessOptions = {},
+): Promise<OcrResult> {
+  if (contentType === "application/pdf") {
+    if (useTextLayer) {
+      return recognizePdf(await readSource(source), pageRanges, options);
+    }
+    if (pageRanges.length === 0) {
+      return recognizePdfPages(source, null, options);
+    }
+    const data = await readSource(source);
+    return recognizePdfPages(data, selectPages(pageRanges, await getPdfPageCount(data)), options);
+  }
+  const steps = canPreprocess(contentType) ? preprocess : [];
+  if (CONVERTED_IMAGE_TYPES.includes(contentType) || steps.length > 0) {
+    const data = await readSource(source);
+    const pageCount = await getImagePageCount(data, contentType);
+    return recognizeImagePages(
+      pageCount,
+      selectPages(pageRanges, pageCount),
+      async (pageNumber) => {
+        const page = await renderPage(data, contentType, pageNumber, steps);
+        if (steps.length > 0) {
+          await onPreprocessedPage?.(pageNumber, page);
+        }
+        return page;
+      },
+      options,
+    );
+  }
+  // Single-page images: the range only has to include page 1
+  selectPages(pageRanges, 1);
+  return recognize(source, contentType, options);
+}
@@ -0,0 +1,124 @@
+import sharp from "sharp";
+import type { PreprocessStep } from "@shared/schema";
+
+// Deskew works on a downscaled copy and searches this range of angles (degrees)
+const SKEW_SAMPLE_WIDTH = 800;
+const MAX_SKEW_ANGLE = 10;
+const MIN_SKEW_CORRECTION = 0.1;
+const MAX_SKEW_SAMPLES = 20000;
+
+// Otsu's method: the threshold that best separates a greyscale histogram into two classes
+function otsuThreshold(pixels: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < pixels.length; i++) histogram[pixels[i]]++;
+
+  const total = pixels.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let best = { threshold: 128, variance: -1 };
+
+  for (let threshold = 0; threshold < 256; threshold++) {
+    backgroundCount += histogram[threshold];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += threshold * histogram[threshold];
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+    if (variance > best.variance) {
+      best = { threshold, variance };
+    }
+  }
+  return best.threshold;
+}
+
+async function toGreyscale(image: Buffer, width?: number) {
+  return sharp(image)
+    .greyscale()
+    .resize(width ? { width, withoutEnlargement: true } : undefined)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+}
+
+// Projection profile: text lines are horizontal when the rows of dark pixels are
+// most sharply concentrated. Returns the clockwise rotation (degrees) that levels them.
+async function estimateSkew(image: Buffer): Promise<number> {
+  const { data, info } = await toGreyscale(image, SKEW_SAMPLE_WIDTH);
+  const threshold = otsuThreshold(data);
+
+  const points: [number, number][] = [];
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] < threshold) points.push([i % info.width, Math.floor(i / info.width)]);
+  }
+  if (points.length === 0) return 0;
+  const stride = Math.ceil(points.length / MAX_SKEW_SAMPLES);
+  const samples = points.filter((_, i) => i % stride === 0);
+
+  const diagonal = Math.ceil(Math.hypot(info.width, info.height));
+  const score = (angle: number): number => {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Float64Array(diagonal * 2);
+    for (const [x, y] of samples) {
+      rows[Math.round(x * sin + y * cos) + diagonal]++;
+    }
+    return rows.reduce((acc, count) => acc + count * count, 0);
+  };
+
+  const search = (from: number, to: number, step: number): number => {
+    let best = { angle: 0, score: -1 };
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const value = score(angle);
+      if (value > best.score) best = { angle, score: value };
+    }
+    return best.angle;
+  };
+
+  const coarse = search(-MAX_SKEW_ANGLE, MAX_SKEW_ANGLE, 0.5);
+  return search(coarse - 0.5, coarse + 0.5, 0.05);
+}
+
+// Trim a uniform border (scanner bed, table) around the page; leaves images without one untouched
+async function cropBorders(image: Buffer): Promise<Buffer> {
+  try {
+    return await sharp(image).trim({ threshold: 40 }).png().toBuffer();
+  } catch {
+    return image;
+  }
+}
+
+async function deskew(image: Buffer): Promise<Buffer> {
+  const angle = await estimateSkew(image);
+  if (Math.abs(angle) < MIN_SKEW_CORRECTION) {
+    return image;
+  }
+  return sharp(image).rotate(angle, { background: "#ffffff" }).png().toBuffer();
+}
+
+async function binarize(image: Buffer): Promise<Buffer> {
+  const { data } = await toGreyscale(image);
+  return sharp(image).threshold(otsuThreshold(data)).png().toBuffer();
+}
+
+// Clean up a decoded page image before OCR and return it as PNG. EXIF rotation
+// ("rotate") happens while decoding, since PNG pages no longer carry EXIF data.
+export async function preprocessImage(image: Buffer, steps: PreprocessStep[]): Promise<Buffer> {
+  let current = image;
+  if (steps.includes("crop")) {
+    current = await cropBorders(current);
+  }
+  if (steps.includes("deskew")) {
+    current = await deskew(current);
+  }
+  if (steps.includes("denoise")) {
+    current = await sharp(current).median(3).png().toBuffer();
+  }
+  if (steps.includes("binarize")) {
+    current = await binarize(current);
+  }
+  return current;
+}
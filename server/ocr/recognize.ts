@@ -0,0 +1,98 @@
+import { getDocumentText, getPageText, type OcrDocument } from "@shared/ocr-document";
+import type { OcrSettings } from "@shared/schema";
+import { AzureOcrProvider } from "./azure";
+import { FakeOcrProvider, TesseractOcrProvider } from "./local";
+import type { OcrProgressEvent, OcrProvider, OcrResult, OcrSource } from "./types";
+
+const MAX_POLLING_ATTEMPTS = 120; // Max 2 minutes of polling at 1s intervals
+
+let activeProvider: OcrProvider | null = null;
+
+export function createOcrProvider(name = process.env.OCR_PROVIDER || "azure"): OcrProvider {
+  switch (name) {
+    case "azure":
+      return new AzureOcrProvider();
+    case "tesseract":
+      return new TesseractOcrProvider();
+    case "fake":
+      return new FakeOcrProvider();
+    default:
+      throw new Error(`Unknown OCR provider: ${name}`);
+  }
+}
+
+// Provider selected by the OCR_PROVIDER environment variable (defaults to Azure)
+export function getOcrProvider(): OcrProvider {
+  if (!activeProvider) {
+    activeProvider = createOcrProvider();
+  }
+  return activeProvider;
+}
+
+export interface RecognizeOptions {
+  provider?: OcrProvider;
+  onProgress?: (event: OcrProgressEvent) => void;
+  // Language hints and model options (provider defaults when omitted)
+  settings?: OcrSettings;
+  // Pages of a multi-page document to read, for providers that support page selection
+  pageNumbers?: number[];
+}
+
+async function pollForResult(
+  provider: OcrProvider,
+  operationId: string,
+  onProgress?: (event: OcrProgressEvent) => void,
+): Promise<unknown> {
+  let attempts = 0;
+
+  while (true) {
+    if (attempts >= MAX_POLLING_ATTEMPTS) {
+      throw new Error("OCR processing timed out. Please try with a smaller file or simpler document.");
+    }
+
+    if (provider.pollInterval > 0) {
+      await new Promise((resolve) => setTimeout(resolve, provider.pollInterval));
+    }
+    attempts++;
+
+    const { status, raw } = await provider.poll(operationId);
+    onProgress?.({ type: "poll", status, attempt: attempts });
+    if (status === "succeeded") {
+      return raw;
+    }
+    if (status !== "running" && status !== "notStarted") {
+      throw new Error(`OCR operation failed with status: ${status}`);
+    }
+  }
+}
+
+export function toOcrResult(document: OcrDocument): OcrResult {
+  return {
+    text: getDocumentText(document),
+    pages: document.pages.length,
+    pageTexts: document.pages.map(getPageText),
+    document,
+  };
+}
+
+// Submit a document, wait for the provider to finish and return the normalized result
+export async function recognize(
+  source: OcrSource,
+  contentType: string,
+  { provider = getOcrProvider(), onProgress, settings, pageNumbers }: RecognizeOptions = {},
+): Promise<OcrResult> {
+  const operationId = await provider.submit(source, contentType, { ...settings, pageNumbers });
+  onProgress?.({ type: "submitted", provider: provider.name });
+
+  const raw = await pollForResult(provider, operationId, onProgress);
+  const document = provider.normalize(raw);
+  for (const page of document.pages) {
+    page.method = "ocr";
+  }
+
+  const result = toOcrResult(document);
+  result.pageTexts.forEach((text, i) => {
+    onProgress?.({ type: "page", page: i + 1, pageCount: result.pages, text, method: "ocr" });
+  });
+  return result;
+}
@@ -0,0 +1,131 @@
+import {
+  PDFDocument,
+  StandardFonts,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import type { OcrDocument, OcrPage } from "@shared/ocr-document";
+import { CONVERTED_IMAGE_TYPES, getImagePageCount, renderImagePage } from "./images";
+
+const POINTS_PER_INCH = 72;
+
+// Replace characters the standard font can't encode so the text layer still renders
+function toEncodableText(text: string, charset: Set<number>): string {
+  return Array.from(text)
+    .map((char) => (charset.has(char.codePointAt(0)!) ? char : "?"))
+    .join("");
+}
+
+// Draw each word as invisible text stretched over its bounding box, so
+// viewers can search and select it while the original scan stays visible.
+function drawTextLayer(page: PDFPage, ocrPage: OcrPage, font: PDFFont, charset: Set<number>): void {
+  if (!ocrPage.width || !ocrPage.height) return;
+
+  const { width: pageWidth, height: pageHeight } = page.getSize();
+  const scaleX = pageWidth / ocrPage.width;
+  const scaleY = pageHeight / ocrPage.height;
+  const fontKey = page.node.newFontDictionary(font.name, font.ref);
+
+  for (const line of ocrPage.lines) {
+    for (const word of line.words) {
+      if (word.polygon.length < 8 || !word.text.trim()) continue;
+
+      // Polygon corners: top-left, top-right, bottom-right, bottom-left (y grows downwards)
+      const [tlx, tly, , , brx, bry, blx, bly] = word.polygon;
+      const baselineX = (brx - blx) * scaleX;
+      const baselineY = (bry - bly) * scaleY;
+      const width = Math.hypot(baselineX, baselineY);
+      const height = Math.hypot((blx - tlx) * scaleX, (bly - tly) * scaleY);
+      if (width <= 0 || height <= 0) continue;
+
+      const text = toEncodableText(word.text, charset);
+      const textWidth = font.widthOfTextAtSize(text, height);
+      if (textWidth <= 0) continue;
+
+      // Flip into PDF space (y grows upwards)
+      const angle = Math.atan2(-baselineY, baselineX);
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+
+      page.pushOperators(
+        pushGraphicsState(),
+        beginText(),
+        setFontAndSize(fontKey, height),
+        setTextRenderingMode(TextRenderingMode.Invisible),
+        setCharacterSqueeze((100 * width) / textWidth),
+        setTextMatrix(cos, sin, -sin, cos, blx * scaleX, pageHeight - bly * scaleY),
+        showText(font.encodeText(text)),
+        endText(),
+        popGraphicsState(),
+      );
+    }
+  }
+}
+
+async function embedImagePage(pdf: PDFDocument, image: Buffer, contentType: string, ocrPage?: OcrPage): Promise<void> {
+  const embedded = contentType === "image/png" ? await pdf.embedPng(image) : await pdf.embedJpg(image);
+
+  // Keep the physical size when the provider reports inches; otherwise one point per pixel
+  const width = ocrPage?.unit === "inch" ? ocrPage.width * POINTS_PER_INCH : embedded.width;
+  const height = ocrPage?.unit === "inch" ? ocrPage.height * POINTS_PER_INCH : embedded.height;
+
+  const page = pdf.addPage([width, height]);
+  page.drawImage(embedded, { x: 0, y: 0, width, height });
+}
+
+// Build a PDF that shows the original pages with an invisible OCR text layer on top.
+// pageImages (PNG, one per OCR page in document order) replace the original when the
+// pages were preprocessed before OCR, since the word positions refer to those images.
+export async function createSearchablePdf(
+  source: Buffer,
+  contentType: string,
+  document: OcrDocument,
+  pageImages?: Buffer[],
+): Promise<Buffer> {
+  let pdf: PDFDocument;
+
+  if (pageImages) {
+    pdf = await PDFDocument.create();
+    for (let i = 0; i < pageImages.length; i++) {
+      await embedImagePage(pdf, pageImages[i], "image/png", document.pages[i]);
+    }
+  } else if (contentType === "application/pdf") {
+    pdf = await PDFDocument.load(source, { ignoreEncryption: true });
+  } else if (contentType === "image/png" || contentType === "image/jpeg" || contentType === "image/jpg") {
+    pdf = await PDFDocument.create();
+    await embedImagePage(pdf, source, contentType, document.pages[0]);
+  } else if (CONVERTED_IMAGE_TYPES.includes(contentType)) {
+    pdf = await PDFDocument.create();
+    const pageCount = await getImagePageCount(source, contentType);
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const image = await renderImagePage(source, contentType, pageNumber);
+      await embedImagePage(pdf, image, "image/png", document.pages.find((page) => page.pageNumber === pageNumber));
+    }
+  } else {
+    throw new Error(`Cannot create a searchable PDF from ${contentType} files`);
+  }
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const charset = new Set(font.getCharacterSet());
+  const pages = pdf.getPages();
+
+  document.pages.forEach((ocrPage, i) => {
+    // Only the processed pages were embedded from pageImages
+    const page = pageImages ? pages[i] : pages[ocrPage.pageNumber - 1];
+    if (page) {
+      drawTextLayer(page, ocrPage, font, charset);
+    }
+  });
+
+  return Buffer.from(await pdf.save());
+}
@@ -0,0 +1,18 @@
+import { createReadStream } from "fs";
+import { readFile } from "fs/promises";
+import { Readable } from "stream";
+import type { OcrSource } from "./types";
+
+export function getSourceSize(source: OcrSource): number {
+  return Buffer.isBuffer(source) ? source.length : source.size;
+}
+
+// Load the whole document, for work that needs random access (PDF parsing)
+export function readSource(source: OcrSource): Promise<Buffer> {
+  return Buffer.isBuffer(source) ? Promise.resolve(source) : readFile(source.path);
+}
+
+// A new stream over the document on every call, so a failed upload can be re-sent
+export function openSource(source: OcrSource): Readable {
+  return Buffer.isBuffer(source) ? Readable.from([source]) : createReadStream(source.path);
+}
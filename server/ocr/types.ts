@@ -0,0 +1,51 @@
+import type { OcrDocument, OcrPageMethod } from "@shared/ocr-document";
+import type { OcrSettings } from "@shared/schema";
+
+// Document bytes, either in memory or in a file that is streamed to the provider
+export type OcrSource = Buffer | { path: string; size: number };
+
+export type OcrStatus = "notStarted" | "running" | "succeeded" | "failed";
+
+export interface OcrPollResult {
+  status: OcrStatus;
+  raw?: unknown;
+}
+
+export interface OcrResult {
+  text: string;
+  pages: number;
+  pageTexts: string[];
+  document: OcrDocument;
+}
+
+export type OcrProgressEvent =
+  | { type: "submitted"; provider: string }
+  | { type: "poll"; status: OcrStatus; attempt: number }
+  | { type: "page"; page: number; pageCount: number; text: string; method: OcrPageMethod };
+
+// Largest document a provider accepts in a single request
+export interface OcrProviderLimits {
+  maxPages: number;
+  maxBytes: number;
+}
+
+// Per-request options; providers ignore the settings they have no equivalent for
+export interface OcrSubmitOptions extends Partial<OcrSettings> {
+  // 1-based pages of a multi-page document to read; only passed to providers that support page selection
+  pageNumbers?: number[];
+}
+
+// Common interface for OCR backends. A provider accepts a document,
+// returns an operation id, and is polled until the operation completes.
+export interface OcrProvider {
+  readonly name: string;
+  // Delay between polls in milliseconds (0 for providers that finish on submit)
+  readonly pollInterval: number;
+  // Larger PDFs are split into chunks before submission (no limit when omitted)
+  readonly limits?: OcrProviderLimits;
+  // Can read selected pages of a PDF, so a page range doesn't require splitting the file
+  readonly supportsPageSelection?: boolean;
+  submit(source: OcrSource, contentType: string, options?: OcrSubmitOptions): Promise<string>;
+  poll(operationId: string): Promise<OcrPollResult>;
+  normalize(raw: unknown): OcrDocument;
+}
@@ -1,4 +1,4 @@
-import { users, type User, type UpsertUser } from "@shared/models/auth";
+import { users, type User, type UpsertUser, type UserPreferences } from "@shared/models/auth";
 import { db } from "../../db";
 import { eq } from "drizzle-orm";
 
@@ -7,6 +7,7 @@ import { eq } from "drizzle-orm";
 export interface IAuthStorage {
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updatePreferences(id: string, preferences: Partial<UserPreferences>): Promise<User | undefined>;
 }
 
 class AuthStorage implements IAuthStorage {
@@ -29,6 +30,15 @@ class AuthStorage implements IAuthStorage {
       .returning();
     return user;
   }
+
+  async updatePreferences(id: string, preferences: Partial<UserPreferences>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...preferences, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
 }
 
 export const authStorage = new AuthStorage();
@@ -1,128 +1,84 @@
-import type { Express, Request, Response } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
+import { rm } from "fs/promises";
 import multer from "multer";
-import axios from "axios";
 import Stripe from "stripe";
 import mammoth from "mammoth";
-import { setupAuth, registerAuthRoutes } from "./replit_integrations/auth";
+import { authStorage, setupAuth, registerAuthRoutes } from "./replit_integrations/auth";
+import {
+  jobEvents,
+  jobStorage,
+  parseLanguages,
+  parseModelVersion,
+  parsePageSelection,
+  parsePreprocessSteps,
+  parseReadingOrder,
+  parseResultFormat,
+  registerJobRoutes,
+  saveJobInput,
+  startJobWorker,
+  toJobResponse,
+  wakeJobWorker,
+  SUPPORTED_MIME_TYPES,
+  SUPPORTED_FORMATS,
+  UPLOAD_DIR,
+  MAX_UPLOAD_SIZE,
+} from "./jobs";
+import { getVisibleUpload, registerUploadRoutes, removeUpload, startUploadCleanup, uploadStorage } from "./uploads";
+import { ArchiveError, queueArchive, registerBatchRoutes } from "./batches";
+import { registerDocumentRoutes } from "./documents";
 import { db } from "./db";
-import { payments } from "@shared/schema";
+import { describeExtensionMismatch, detectFileType, FILE_TYPES } from "./fileType";
+import {
+  DEFAULT_OCR_SETTINGS,
+  OCR_LANGUAGES,
+  OCR_MODEL_VERSIONS,
+  PREPROCESS_STEPS,
+  payments,
+  type OcrSettings,
+  type OcrUpload,
+  type User,
+  type UserPreferences,
+} from "@shared/schema";
 import { eq, and, gt } from "drizzle-orm";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
   apiVersion: "2025-12-15.clover",
 });
 
+// Uploads are streamed to disk so concurrent large files don't exhaust the heap
 const upload = multer({
-  storage: multer.memoryStorage(),
+  dest: UPLOAD_DIR,
   limits: {
-    fileSize: 300 * 1024 * 1024, // 300MB limit
+    fileSize: MAX_UPLOAD_SIZE,
   },
 });
 
-const AZURE_ENDPOINT = process.env.AZURE_COGNITIVE_ENDPOINT;
-const AZURE_KEY = process.env.AZURE_COGNITIVE_KEY;
-
-const MAX_POLLING_ATTEMPTS = 120; // Max 2 minutes of polling at 1s intervals
-const POLLING_INTERVAL = 1000; // 1 second
-
-async function pollForResult(operationLocation: string): Promise<any> {
-  let attempts = 0;
-  let result;
-  let status = "running";
-  
-  while (status === "running" || status === "notStarted") {
-    if (attempts >= MAX_POLLING_ATTEMPTS) {
-      throw new Error("OCR processing timed out. Please try with a smaller file or simpler document.");
-    }
-    
-    await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVAL));
-    attempts++;
-    
-    const resultResponse = await axios.get(operationLocation, {
-      headers: {
-        "Ocp-Apim-Subscription-Key": AZURE_KEY,
-      },
-      timeout: 30000,
-    });
-    
-    result = resultResponse.data;
-    status = result.status;
-  }
-
-  if (status !== "succeeded") {
-    throw new Error(`OCR operation failed with status: ${status}`);
-  }
-
-  return result;
-}
-
-function extractTextFromResult(result: any): { text: string; pages: number } {
-  const pages = result.analyzeResult?.readResults || [];
-  let extractedText = "";
-
-  for (const page of pages) {
-    for (const line of page.lines || []) {
-      extractedText += line.text + "\n";
-    }
-    extractedText += "\n";
-  }
+const INVALID_LANGUAGE_MESSAGE = `Invalid language. Use any of ${Object.keys(OCR_LANGUAGES).join(", ")}, or "auto".`;
+const INVALID_READING_ORDER_MESSAGE = 'Invalid reading order. Use "basic" or "natural".';
+const INVALID_MODEL_VERSION_MESSAGE = `Invalid model version. Use any of ${OCR_MODEL_VERSIONS.join(", ")}.`;
 
+function toPreferences(user: User): UserPreferences {
   return {
-    text: extractedText.trim(),
-    pages: pages.length,
+    ocrCacheOptOut: user.ocrCacheOptOut,
+    ocrLanguages: user.ocrLanguages,
+    ocrReadingOrder: user.ocrReadingOrder,
+    ocrModelVersion: user.ocrModelVersion,
   };
 }
 
-async function extractTextFromImage(imageBuffer: Buffer): Promise<string> {
-  if (!AZURE_ENDPOINT || !AZURE_KEY) {
-    throw new Error("Azure Cognitive Services credentials are not configured");
-  }
-
-  const endpoint = AZURE_ENDPOINT.replace(/\/$/, "");
-  const readUrl = `${endpoint}/vision/v3.2/read/analyze`;
-
-  const submitResponse = await axios.post(readUrl, imageBuffer, {
-    headers: {
-      "Ocp-Apim-Subscription-Key": AZURE_KEY,
-      "Content-Type": "application/octet-stream",
-    },
-    timeout: 60000,
-  });
-
-  const operationLocation = submitResponse.headers["operation-location"];
-  if (!operationLocation) {
-    throw new Error("Failed to get operation location from Azure");
-  }
-
-  const result = await pollForResult(operationLocation);
-  const extracted = extractTextFromResult(result);
-  return extracted.text;
-}
-
-async function extractTextFromPdf(pdfBuffer: Buffer): Promise<{ text: string; pages: number }> {
-  if (!AZURE_ENDPOINT || !AZURE_KEY) {
-    throw new Error("Azure Cognitive Services credentials are not configured");
-  }
-
-  const endpoint = AZURE_ENDPOINT.replace(/\/$/, "");
-  const readUrl = `${endpoint}/vision/v3.2/read/analyze`;
-
-  const submitResponse = await axios.post(readUrl, pdfBuffer, {
-    headers: {
-      "Ocp-Apim-Subscription-Key": AZURE_KEY,
-      "Content-Type": "application/pdf",
-    },
-    timeout: 60000,
+// Delete the temporary upload once the response is finished. Files that were
+// moved into the job queue are already gone, so this only catches leftovers.
+function removeUploadWhenDone(req: Request, res: Response, next: NextFunction) {
+  res.on("close", () => {
+    if (req.file) {
+      rm(req.file.path, { force: true }).catch((error) => {
+        console.error("Failed to remove temporary upload:", error.message);
+      });
+    }
   });
-
-  const operationLocation = submitResponse.headers["operation-location"];
-  if (!operationLocation) {
-    throw new Error("Failed to get operation location from Azure");
-  }
-
-  const result = await pollForResult(operationLocation);
-  return extractTextFromResult(result);
+  next();
 }
 
 // Helper function to check if user has valid access
@@ -142,6 +98,17 @@ async function hasValidAccess(userId: string): Promise<boolean> {
   return validPayments.length > 0;
 }
 
+// Signed-in users need paid access to OCR; anonymous uploads are allowed for now
+async function requireOcrAccess(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated() && req.user) {
+    const hasAccess = await hasValidAccess((req.user as any).id);
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Please purchase access to use the OCR feature" });
+    }
+  }
+  next();
+}
+
 // Get access expiry for a user
 async function getAccessExpiry(userId: string): Promise<Date | null> {
   const now = new Date();
@@ -182,15 +149,69 @@ export async function registerRoutes(
     });
   });
 
+  // Update the signed-in user's OCR preferences; fields left out are unchanged
+  app.patch("/api/preferences", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const { ocrCacheOptOut, ocrLanguages, ocrReadingOrder, ocrModelVersion } = req.body ?? {};
+    const preferences: Partial<UserPreferences> = {};
+    if (ocrCacheOptOut !== undefined) {
+      if (typeof ocrCacheOptOut !== "boolean") {
+        return res.status(400).json({ message: "ocrCacheOptOut must be true or false" });
+      }
+      preferences.ocrCacheOptOut = ocrCacheOptOut;
+    }
+    if (ocrLanguages !== undefined) {
+      preferences.ocrLanguages = parseLanguages(ocrLanguages);
+      if (!preferences.ocrLanguages) {
+        return res.status(400).json({ message: INVALID_LANGUAGE_MESSAGE });
+      }
+    }
+    if (ocrReadingOrder !== undefined) {
+      preferences.ocrReadingOrder = parseReadingOrder(ocrReadingOrder);
+      if (!preferences.ocrReadingOrder) {
+        return res.status(400).json({ message: INVALID_READING_ORDER_MESSAGE });
+      }
+    }
+    if (ocrModelVersion !== undefined) {
+      preferences.ocrModelVersion = parseModelVersion(ocrModelVersion);
+      if (!preferences.ocrModelVersion) {
+        return res.status(400).json({ message: INVALID_MODEL_VERSION_MESSAGE });
+      }
+    }
+    if (Object.keys(preferences).length === 0) {
+      return res.status(400).json({ message: "No preferences to update" });
+    }
+
+    try {
+      const user = await authStorage.updatePreferences((req.user as any).id, preferences);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPreferences(user));
+    } catch (error: any) {
+      console.error("Preferences error:", error.message);
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
+  });
+
   // Extract text from Word document (.docx)
-  app.post("/api/extract-docx", upload.single("file"), async (req, res) => {
+  app.post("/api/extract-docx", removeUploadWhenDone, upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const fileBuffer = req.file.buffer;
-      const result = await mammoth.extractRawText({ buffer: fileBuffer });
+      const detected = await detectFileType(req.file.path);
+      if (detected !== FILE_TYPES.docx) {
+        return res.status(400).json({
+          message: `This file is ${detected ? `a ${detected.label}` : "not recognised"}, not a Word document (.docx)`,
+        });
+      }
+
+      const result = await mammoth.extractRawText({ path: req.file.path });
       
       res.json({ 
         text: result.value,
@@ -299,61 +320,175 @@ export async function registerRoutes(
     res.json({ received: true });
   });
 
-  app.post("/api/ocr", upload.single("file"), async (req, res) => {
-    // Check access - if logged in, verify payment; if not logged in, allow upload anyway for testing
+  // Queue a document for OCR: either a multipart `file`, or the `uploadId` of a
+  // finished resumable upload (see /api/uploads). A ZIP archive becomes a batch
+  // with one job per document inside it (see /api/batches).
+  app.post("/api/ocr", requireOcrAccess, removeUploadWhenDone, upload.single("file"), async (req, res) => {
+    // Allow uploads without login for now
+    let userId: string | null = null;
+    let cacheOptOut = false;
+    // Settings the upload doesn't specify come from the user's preferences
+    let defaults: OcrSettings = DEFAULT_OCR_SETTINGS;
     if (req.isAuthenticated() && req.user) {
-      const userId = (req.user as any).id;
-      const hasAccess = await hasValidAccess(userId);
-      
-      if (!hasAccess) {
-        return res.status(403).json({ message: "Please purchase access to use the OCR feature" });
+      userId = (req.user as any).id as string;
+      const user = await authStorage.getUser(userId);
+      if (user) {
+        cacheOptOut = user.ocrCacheOptOut;
+        defaults = {
+          languages: user.ocrLanguages,
+          readingOrder: user.ocrReadingOrder,
+          modelVersion: user.ocrModelVersion,
+        };
       }
     }
-    // Allow uploads without login for now
+
     try {
-      if (!req.file) {
+      let input: { path: string; filename: string; mimeType: string; size: number };
+      let resumable: OcrUpload | undefined;
+      const uploadId = req.body?.uploadId;
+
+      if (req.file) {
+        const { path: uploadPath, mimetype, originalname, size } = req.file;
+        input = { path: uploadPath, filename: originalname, mimeType: mimetype, size };
+      } else if (typeof uploadId === "string") {
+        resumable = await getVisibleUpload(req, uploadId);
+        if (!resumable) {
+          return res.status(404).json({ message: "Upload not found" });
+        }
+        if (resumable.offset < resumable.size) {
+          return res.status(409).json({ message: "Upload is not complete yet" });
+        }
+        input = resumable;
+      } else {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const { buffer, mimetype, originalname } = req.file;
-      
-      let text: string;
-      let pages = 1;
-
-      if (mimetype === "application/pdf") {
-        const result = await extractTextFromPdf(buffer);
-        text = result.text;
-        pages = result.pages;
-      } else if (
-        mimetype === "image/png" ||
-        mimetype === "image/jpeg" ||
-        mimetype === "image/jpg"
-      ) {
-        text = await extractTextFromImage(buffer);
-      } else if (mimetype === "text/plain") {
-        // TXT files - just return the content directly
-        text = buffer.toString("utf-8");
-      } else {
+      // Dispatch on the file's content; the browser-supplied MIME type is only a hint
+      const detected = await detectFileType(input.path);
+      const rejection =
+        !detected || (!SUPPORTED_MIME_TYPES.includes(detected.mimeType) && detected !== FILE_TYPES.zip)
+          ? `Unsupported file type${detected ? ` (${detected.label})` : ""}. Please upload ${SUPPORTED_FORMATS} files.`
+          : describeExtensionMismatch(input.filename, detected);
+      if (rejection || !detected) {
+        // A rejected resumable upload can't be queued later either
+        if (resumable) {
+          await removeUpload(resumable);
+        }
+        return res.status(400).json({ message: rejection });
+      }
+
+      // Queue the document; the worker does the OCR and clients poll /api/jobs/:id
+      const requestedFormat = req.body?.format ?? req.query.format;
+      const format = requestedFormat === undefined ? "text" : parseResultFormat(requestedFormat);
+      if (!format) {
+        return res.status(400).json({ message: 'Invalid format. Use "text" or "json".' });
+      }
+
+      const preprocess = parsePreprocessSteps(req.body?.preprocess ?? req.query.preprocess);
+      if (!preprocess) {
         return res.status(400).json({
-          message: "Unsupported file type. Please upload PDF, PNG, JPG, or TXT files.",
+          message: `Invalid preprocess step. Use any of ${PREPROCESS_STEPS.join(", ")}, or "all".`,
         });
       }
 
-      if (!text || text.length === 0) {
-        return res.status(200).json({
-          text: "No text could be extracted from this document. The image may not contain readable text or the scan quality may be too low.",
-          pages,
+      const pageRanges = parsePageSelection(req.body?.pages ?? req.query.pages);
+      if (!pageRanges) {
+        return res.status(400).json({
+          message: 'Invalid page range. Use page numbers and ranges separated by commas, e.g. "1-3,7,10-".',
         });
       }
 
-      res.json({ text, pages });
+      const requestedLanguages = req.body?.languages ?? req.query.languages;
+      const languages = requestedLanguages === undefined ? defaults.languages : parseLanguages(requestedLanguages);
+      if (!languages) {
+        return res.status(400).json({ message: INVALID_LANGUAGE_MESSAGE });
+      }
+      const requestedReadingOrder = req.body?.readingOrder ?? req.query.readingOrder;
+      const readingOrder =
+        requestedReadingOrder === undefined ? defaults.readingOrder : parseReadingOrder(requestedReadingOrder);
+      if (!readingOrder) {
+        return res.status(400).json({ message: INVALID_READING_ORDER_MESSAGE });
+      }
+      const requestedModelVersion = req.body?.modelVersion ?? req.query.modelVersion;
+      const modelVersion =
+        requestedModelVersion === undefined ? defaults.modelVersion : parseModelVersion(requestedModelVersion);
+      if (!modelVersion) {
+        return res.status(400).json({ message: INVALID_MODEL_VERSION_MESSAGE });
+      }
+
+      const searchablePdf = String(req.body?.searchablePdf ?? req.query.searchablePdf) === "true";
+      const forceOcr = String(req.body?.forceOcr ?? req.query.forceOcr) === "true";
+      // Sensitive documents can skip the shared result cache per upload or per account
+      const useCache = !cacheOptOut && String(req.body?.cache ?? req.query.cache) !== "false";
+
+      if (detected === FILE_TYPES.zip) {
+        try {
+          const batch = await queueArchive(input.path, input.filename, userId, {
+            format,
+            searchablePdf,
+            forceOcr,
+            useCache,
+            preprocess,
+            pageRanges,
+            languages,
+            readingOrder,
+            modelVersion,
+          });
+          return res.status(202).json({ batchId: batch.id, batch });
+        } catch (error: any) {
+          if (error instanceof ArchiveError) {
+            return res.status(400).json({ message: error.message });
+          }
+          throw error;
+        } finally {
+          // The archive itself isn't kept once its entries are extracted
+          if (resumable) {
+            await removeUpload(resumable);
+          }
+        }
+      }
+
+      const jobId = randomUUID();
+      const inputPath = await saveJobInput(jobId, input.path);
+      if (resumable) {
+        await uploadStorage.deleteUpload(resumable.id);
+      }
+
+      const job = await jobStorage.createJob({
+        id: jobId,
+        userId,
+        filename: input.filename,
+        mimeType: detected.mimeType,
+        size: input.size,
+        inputPath,
+        format,
+        searchablePdf,
+        forceOcr,
+        useCache,
+        preprocess,
+        pageRanges,
+        languages,
+        readingOrder,
+        modelVersion,
+      });
+      jobEvents.publish(job.id, { type: "received", progress: 0, filename: input.filename, size: input.size });
+      wakeJobWorker();
+
+      res.status(202).json({ jobId: job.id, job: toJobResponse(job) });
     } catch (error: any) {
-      console.error("OCR Error:", error.response?.data || error.message);
+      console.error("OCR Error:", error.message);
       res.status(500).json({
-        message: error.response?.data?.error?.message || error.message || "Failed to process file",
+        message: error.message || "Failed to queue file",
       });
     }
   });
 
+  registerUploadRoutes(app, requireOcrAccess);
+  startUploadCleanup();
+  registerJobRoutes(app);
+  registerBatchRoutes(app);
+  registerDocumentRoutes(app);
+  await startJobWorker();
+
   return httpServer;
 }
@@ -0,0 +1,2 @@
+export { uploadStorage, type IUploadStorage } from "./storage";
+export { registerUploadRoutes, startUploadCleanup, getVisibleUpload, removeUpload } from "./routes";
@@ -0,0 +1,299 @@
+import { after, afterEach, before, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, randomBytes } from "crypto";
+import { mkdtemp, readFile, rm, stat } from "fs/promises";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import express from "express";
+import type { InsertOcrUpload, OcrUpload } from "@shared/schema";
+
+// Uploads are written under OCR_JOB_DIR, which is read when the modules load
+const jobDir = await mkdtemp(path.join(tmpdir(), "uploads-test-"));
+process.env.OCR_JOB_DIR = jobDir;
+const { registerUploadRoutes } = await import("./routes");
+const { uploadStorage } = await import("./storage");
+const { uploadResumable, getPendingUploads } = await import("../../client/src/lib/resumable-upload");
+
+const MB = 1024 * 1024;
+const CHUNK_SIZE = 8 * MB;
+
+// Uploads kept in memory in place of the database
+let uploads = new Map<string, OcrUpload>();
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.isAuthenticated = (() => false) as typeof req.isAuthenticated;
+    next();
+  });
+  registerUploadRoutes(app, (_req, _res, next) => next());
+  server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.close();
+  await rm(jobDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  uploads = new Map();
+  mock.method(uploadStorage, "createUpload", async (upload: InsertOcrUpload) => {
+    const now = new Date();
+    const created = { userId: null, offset: 0, createdAt: now, updatedAt: now, ...upload } as OcrUpload;
+    uploads.set(created.id, created);
+    return created;
+  });
+  mock.method(uploadStorage, "getUpload", async (id: string) => uploads.get(id));
+  mock.method(uploadStorage, "advanceOffset", async (id: string, from: number, to: number, expiresAt: Date) => {
+    const upload = uploads.get(id);
+    if (!upload || upload.offset !== from) return undefined;
+    const updated = { ...upload, offset: to, expiresAt, updatedAt: new Date() };
+    uploads.set(id, updated);
+    return updated;
+  });
+  mock.method(uploadStorage, "deleteUpload", async (id: string) => {
+    uploads.delete(id);
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+function sha256(data: Buffer): string {
+  return `sha256 ${createHash("sha256").update(data).digest("base64")}`;
+}
+
+async function startUpload(body: Record<string, unknown>) {
+  const response = await fetch(`${baseUrl}/api/uploads`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function sendChunk(uploadId: string, chunk: Buffer, headers: Record<string, string> = {}) {
+  const response = await fetch(`${baseUrl}/api/uploads/${uploadId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/offset+octet-stream", ...headers },
+    body: chunk,
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function createUpload(size: number): Promise<string> {
+  const { status, body } = await startUpload({ filename: "scan.pdf", size, mimeType: "application/pdf" });
+  assert.equal(status, 201);
+  return body.uploadId;
+}
+
+test("POST /api/uploads validates the file it is told about", async () => {
+  assert.equal((await startUpload({ size: 10 })).status, 400);
+  assert.equal((await startUpload({ filename: "scan.pdf", size: 0 })).status, 400);
+  assert.equal((await startUpload({ filename: "scan.pdf", size: 1.5 })).status, 400);
+  assert.equal((await startUpload({ filename: "scan.pdf", size: 301 * MB })).status, 413);
+  const unsupported = await startUpload({ filename: "song.mp3", size: 10, mimeType: "audio/mpeg" });
+  assert.equal(unsupported.status, 400);
+  assert.match(unsupported.body.message, /Unsupported file type/);
+
+  const { status, body } = await startUpload({ filename: "scan.pdf", size: 10 });
+  assert.equal(status, 201);
+  assert.deepEqual(
+    { filename: body.filename, size: body.size, offset: body.offset, chunkSize: body.chunkSize },
+    { filename: "scan.pdf", size: 10, offset: 0, chunkSize: CHUNK_SIZE },
+  );
+});
+
+test("chunks are appended at the upload offset", async () => {
+  const data = randomBytes(1000);
+  const uploadId = await createUpload(data.length);
+
+  const first = await sendChunk(uploadId, data.subarray(0, 600), { "Upload-Offset": "0" });
+  assert.equal(first.status, 200);
+  assert.equal(first.body.offset, 600);
+
+  const second = await sendChunk(uploadId, data.subarray(600), {
+    "Upload-Offset": "600",
+    "Upload-Checksum": sha256(data.subarray(600)),
+  });
+  assert.equal(second.status, 200);
+  assert.equal(second.body.offset, 1000);
+  assert.deepEqual(await readFile(uploads.get(uploadId)!.path), data);
+});
+
+test("a chunk at the wrong offset gets a 409 with the server's offset", async () => {
+  const data = randomBytes(100);
+  const uploadId = await createUpload(data.length);
+  await sendChunk(uploadId, data.subarray(0, 40), { "Upload-Offset": "0" });
+
+  for (const offset of ["0", "80"]) {
+    const { status, body } = await sendChunk(uploadId, data.subarray(40), { "Upload-Offset": offset });
+    assert.equal(status, 409);
+    assert.equal(body.message, "Upload-Offset does not match");
+    assert.equal(body.uploadId, uploadId);
+    assert.equal(body.offset, 40);
+  }
+  assert.equal(uploads.get(uploadId)!.offset, 40);
+});
+
+test("a chunk whose checksum doesn't match gets a 422 and isn't written", async () => {
+  const data = randomBytes(100);
+  const uploadId = await createUpload(data.length);
+
+  for (const checksum of [sha256(randomBytes(100)), "md5 abc", "sha256"]) {
+    const { status, body } = await sendChunk(uploadId, data, { "Upload-Offset": "0", "Upload-Checksum": checksum });
+    assert.equal(status, 422);
+    assert.equal(body.message, "Chunk checksum mismatch");
+  }
+  assert.equal(uploads.get(uploadId)!.offset, 0);
+  assert.equal((await stat(uploads.get(uploadId)!.path)).size, 0);
+});
+
+test("a chunk past the declared size gets a 400", async () => {
+  const uploadId = await createUpload(100);
+  const { status, body } = await sendChunk(uploadId, randomBytes(101), { "Upload-Offset": "0" });
+  assert.equal(status, 400);
+  assert.equal(body.message, "Chunk extends past the declared upload size");
+  assert.equal(uploads.get(uploadId)!.offset, 0);
+});
+
+test("chunks need an Upload-Offset and the offset content type", async () => {
+  const uploadId = await createUpload(100);
+  assert.equal((await sendChunk(uploadId, randomBytes(10))).status, 400);
+  assert.equal((await sendChunk(uploadId, randomBytes(10), { "Upload-Offset": "-1" })).status, 400);
+
+  const response = await fetch(`${baseUrl}/api/uploads/${uploadId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/octet-stream", "Upload-Offset": "0" },
+    body: randomBytes(10),
+  });
+  assert.equal(response.status, 415);
+});
+
+test("a second chunk while one is being written gets a 409", async () => {
+  const data = randomBytes(100);
+  const uploadId = await createUpload(data.length);
+
+  // Hold the first request inside the route until the second has been answered
+  let entered!: () => void;
+  let release!: () => void;
+  const inside = new Promise<void>((resolve) => (entered = resolve));
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  const getUpload = uploadStorage.getUpload;
+  mock.method(uploadStorage, "getUpload", async (id: string) => {
+    entered();
+    await gate;
+    return getUpload.call(uploadStorage, id);
+  });
+
+  const first = sendChunk(uploadId, data.subarray(0, 50), { "Upload-Offset": "0" });
+  await inside;
+  const second = await sendChunk(uploadId, data.subarray(0, 50), { "Upload-Offset": "0" });
+  assert.equal(second.status, 409);
+  assert.equal(second.body.message, "Another chunk is being written to this upload");
+
+  release();
+  assert.equal((await first).status, 200);
+  assert.equal(uploads.get(uploadId)!.offset, 50);
+});
+
+test("GET returns the offset to resume from", async () => {
+  const data = randomBytes(100);
+  const uploadId = await createUpload(data.length);
+  await sendChunk(uploadId, data.subarray(0, 30), { "Upload-Offset": "0" });
+
+  const response = await fetch(`${baseUrl}/api/uploads/${uploadId}`);
+  assert.equal(response.status, 200);
+  const body = await response.json();
+  assert.equal(body.offset, 30);
+  assert.equal(body.size, 100);
+
+  assert.equal((await fetch(`${baseUrl}/api/uploads/unknown`)).status, 404);
+});
+
+test("another user's upload is not found", async () => {
+  const uploadId = await createUpload(100);
+  uploads.set(uploadId, { ...uploads.get(uploadId)!, userId: "someone-else" });
+  assert.equal((await fetch(`${baseUrl}/api/uploads/${uploadId}`)).status, 404);
+  assert.equal((await sendChunk(uploadId, randomBytes(10), { "Upload-Offset": "0" })).status, 404);
+  assert.equal((await fetch(`${baseUrl}/api/uploads/${uploadId}`, { method: "DELETE" })).status, 404);
+});
+
+test("DELETE abandons the upload and its file", async () => {
+  const uploadId = await createUpload(100);
+  const uploadPath = uploads.get(uploadId)!.path;
+  assert.equal((await fetch(`${baseUrl}/api/uploads/${uploadId}`, { method: "DELETE" })).status, 204);
+  assert.equal(uploads.has(uploadId), false);
+  await assert.rejects(stat(uploadPath), { code: "ENOENT" });
+});
+
+// The browser client against the same routes. It calls relative URLs and keeps
+// pending uploads in localStorage, so both are provided here.
+function useBrowserGlobals() {
+  const items = new Map<string, string>();
+  const fetch = globalThis.fetch;
+  mock.method(globalThis, "fetch", (url: string, init?: RequestInit) => fetch(new URL(url, baseUrl), init));
+  Object.assign(globalThis, {
+    localStorage: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+    },
+  });
+}
+
+test("uploadResumable sends a file in checksummed chunks", async () => {
+  useBrowserGlobals();
+  const data = randomBytes(CHUNK_SIZE + 1000);
+  const file = new File([data], "scan.pdf", { type: "application/pdf", lastModified: 1 });
+  const progress: number[] = [];
+
+  const uploadId = await uploadResumable(file, (sent) => progress.push(sent));
+  assert.deepEqual(progress, [0, CHUNK_SIZE, data.length]);
+  assert.deepEqual(await readFile(uploads.get(uploadId)!.path), data);
+  assert.deepEqual(getPendingUploads(), [{ uploadId, name: "scan.pdf", size: data.length, lastModified: 1 }]);
+});
+
+test("uploadResumable resumes a remembered upload from the server's offset", async () => {
+  useBrowserGlobals();
+  const data = randomBytes(CHUNK_SIZE + 1000);
+  const file = new File([data], "scan.pdf", { type: "application/pdf", lastModified: 2 });
+
+  // The first chunk arrived before the page was reloaded
+  const uploadId = await createUpload(data.length);
+  await sendChunk(uploadId, data.subarray(0, CHUNK_SIZE), { "Upload-Offset": "0" });
+  localStorage.setItem(
+    "ocr-pending-uploads",
+    JSON.stringify([{ uploadId, name: "scan.pdf", size: data.length, lastModified: 2 }]),
+  );
+
+  const progress: number[] = [];
+  assert.equal(await uploadResumable(file, (sent) => progress.push(sent)), uploadId);
+  assert.deepEqual(progress, [CHUNK_SIZE, data.length]);
+  assert.deepEqual(await readFile(uploads.get(uploadId)!.path), data);
+});
+
+test("uploadResumable starts over when the remembered upload has expired", async () => {
+  useBrowserGlobals();
+  const data = randomBytes(1000);
+  const file = new File([data], "scan.pdf", { type: "application/pdf", lastModified: 3 });
+  localStorage.setItem(
+    "ocr-pending-uploads",
+    JSON.stringify([{ uploadId: "expired", name: "scan.pdf", size: data.length, lastModified: 3 }]),
+  );
+
+  const uploadId = await uploadResumable(file);
+  assert.notEqual(uploadId, "expired");
+  assert.deepEqual(await readFile(uploads.get(uploadId)!.path), data);
+  assert.deepEqual(
+    getPendingUploads().map((upload) => upload.uploadId),
+    [uploadId],
+  );
+});
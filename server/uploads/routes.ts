@@ -0,0 +1,210 @@
+import express, { type Express, type Request, type RequestHandler } from "express";
+import { createHash, randomUUID } from "crypto";
+import { mkdir, open, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { OcrUpload, OcrUploadResponse } from "@shared/schema";
+import { FILE_TYPES, getFileTypeByExtension } from "../fileType";
+import { MAX_UPLOAD_SIZE, RESUMABLE_UPLOAD_DIR, SUPPORTED_FORMATS, SUPPORTED_MIME_TYPES } from "../jobs";
+import { uploadStorage } from "./storage";
+
+const CHUNK_SIZE = 8 * 1024 * 1024; // Chunk size clients are told to use
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+// Uploads that receive no chunk for this long are deleted
+const UPLOAD_TTL_HOURS = parseFloat(process.env.OCR_UPLOAD_TTL_HOURS || "24");
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+// Chunks of one upload are written one at a time
+const busyUploads = new Set<string>();
+
+function getExpiry(): Date {
+  return new Date(Date.now() + UPLOAD_TTL_HOURS * 60 * 60 * 1000);
+}
+
+function toUploadResponse(upload: OcrUpload): OcrUploadResponse {
+  return {
+    uploadId: upload.id,
+    filename: upload.filename,
+    size: upload.size,
+    offset: upload.offset,
+    chunkSize: CHUNK_SIZE,
+    expiresAt: upload.expiresAt.toISOString(),
+  };
+}
+
+// Upload-Checksum uses the tus format: "sha256 <base64 digest>"
+function verifyChecksum(header: string | undefined, chunk: Buffer): boolean | undefined {
+  if (!header) return undefined;
+  const [algorithm, digest] = header.trim().split(/\s+/);
+  if (algorithm?.toLowerCase() !== "sha256" || !digest) return false;
+  return createHash("sha256").update(chunk).digest("base64") === digest;
+}
+
+// Uploads started by a signed-in user are only visible to that user
+export async function getVisibleUpload(req: Request, id: string): Promise<OcrUpload | undefined> {
+  const upload = await uploadStorage.getUpload(id);
+  const userId = req.isAuthenticated() && req.user ? (req.user as any).id : null;
+  if (!upload || (upload.userId && upload.userId !== userId)) {
+    return undefined;
+  }
+  return upload;
+}
+
+export async function removeUpload(upload: OcrUpload): Promise<void> {
+  await uploadStorage.deleteUpload(upload.id);
+  await rm(upload.path, { force: true });
+}
+
+// Register resumable upload routes. Clients create an upload, PATCH chunks at
+// the current offset (re-reading it with GET after a failure), then queue the
+// finished upload with POST /api/ocr { uploadId }.
+export function registerUploadRoutes(app: Express, requireAccess: RequestHandler): void {
+  // Start an upload
+  app.post("/api/uploads", requireAccess, async (req, res) => {
+    const { filename, size, mimeType } = req.body ?? {};
+    if (typeof filename !== "string" || !filename.trim()) {
+      return res.status(400).json({ message: "filename is required" });
+    }
+    if (!Number.isInteger(size) || size <= 0) {
+      return res.status(400).json({ message: "size must be a positive integer" });
+    }
+    if (size > MAX_UPLOAD_SIZE) {
+      return res.status(413).json({ message: "File size must be less than 300MB" });
+    }
+    // The content is sniffed when the upload is queued; this only turns away
+    // files whose name and declared type both say they are unsupported
+    const accepted = [...SUPPORTED_MIME_TYPES, FILE_TYPES.zip.mimeType];
+    const extensionType = getFileTypeByExtension(filename)?.mimeType;
+    if (!accepted.includes(extensionType ?? "") && !accepted.includes(mimeType)) {
+      return res.status(400).json({
+        message: `Unsupported file type. Please upload ${SUPPORTED_FORMATS} files.`,
+      });
+    }
+
+    try {
+      const id = randomUUID();
+      await mkdir(RESUMABLE_UPLOAD_DIR, { recursive: true });
+      const uploadPath = path.join(RESUMABLE_UPLOAD_DIR, id);
+      await writeFile(uploadPath, "");
+
+      const upload = await uploadStorage.createUpload({
+        id,
+        userId: req.isAuthenticated() && req.user ? (req.user as any).id : null,
+        filename,
+        mimeType: typeof mimeType === "string" ? mimeType : "",
+        size,
+        path: uploadPath,
+        expiresAt: getExpiry(),
+      });
+      res.status(201).json(toUploadResponse(upload));
+    } catch (error: any) {
+      console.error("Upload error:", error.message);
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  // Current offset, used to resume after a dropped connection or reload
+  app.get("/api/uploads/:id", async (req, res) => {
+    try {
+      const upload = await getVisibleUpload(req, req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      res.json(toUploadResponse(upload));
+    } catch (error: any) {
+      console.error("Upload error:", error.message);
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  // Append a chunk. Upload-Offset must match the server's offset; an optional
+  // Upload-Checksum is verified before anything is written.
+  app.patch(
+    "/api/uploads/:id",
+    express.raw({ type: "application/offset+octet-stream", limit: MAX_CHUNK_SIZE }),
+    async (req, res) => {
+      const id = req.params.id as string;
+      const chunk = req.body;
+      if (!Buffer.isBuffer(chunk)) {
+        return res.status(415).json({ message: "Content-Type must be application/offset+octet-stream" });
+      }
+
+      const offset = Number(req.get("Upload-Offset"));
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({ message: "Upload-Offset header is required" });
+      }
+
+      const checksum = verifyChecksum(req.get("Upload-Checksum"), chunk);
+      if (checksum === false) {
+        return res.status(422).json({ message: "Chunk checksum mismatch" });
+      }
+
+      if (busyUploads.has(id)) {
+        return res.status(409).json({ message: "Another chunk is being written to this upload" });
+      }
+      busyUploads.add(id);
+
+      try {
+        const upload = await getVisibleUpload(req, id);
+        if (!upload) {
+          return res.status(404).json({ message: "Upload not found" });
+        }
+        if (offset !== upload.offset) {
+          return res.status(409).json({ message: "Upload-Offset does not match", ...toUploadResponse(upload) });
+        }
+        if (offset + chunk.length > upload.size) {
+          return res.status(400).json({ message: "Chunk extends past the declared upload size" });
+        }
+
+        const file = await open(upload.path, "r+");
+        try {
+          await file.write(chunk, 0, chunk.length, offset);
+        } finally {
+          await file.close();
+        }
+
+        const updated = await uploadStorage.advanceOffset(id, offset, offset + chunk.length, getExpiry());
+        if (!updated) {
+          return res.status(409).json({ message: "Upload changed while the chunk was written" });
+        }
+        res.json(toUploadResponse(updated));
+      } catch (error: any) {
+        console.error("Upload error:", error.message);
+        res.status(500).json({ message: "Failed to write chunk" });
+      } finally {
+        busyUploads.delete(id);
+      }
+    },
+  );
+
+  // Abandon an upload
+  app.delete("/api/uploads/:id", async (req, res) => {
+    try {
+      const upload = await getVisibleUpload(req, req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      await removeUpload(upload);
+      res.status(204).end();
+    } catch (error: any) {
+      console.error("Upload error:", error.message);
+      res.status(500).json({ message: "Failed to cancel upload" });
+    }
+  });
+}
+
+async function removeExpiredUploads(): Promise<void> {
+  try {
+    const expired = await uploadStorage.deleteExpiredUploads();
+    await Promise.all(expired.map((upload) => rm(upload.path, { force: true })));
+    if (expired.length > 0) {
+      console.log(`Removed ${expired.length} abandoned upload(s)`);
+    }
+  } catch (error: any) {
+    console.error("Failed to remove abandoned uploads:", error.message);
+  }
+}
+
+export function startUploadCleanup(): void {
+  setInterval(removeExpiredUploads, CLEANUP_INTERVAL).unref();
+  void removeExpiredUploads();
+}
@@ -0,0 +1,45 @@
+import { ocrUploads, type InsertOcrUpload, type OcrUpload } from "@shared/schema";
+import { db } from "../db";
+import { and, eq, lt } from "drizzle-orm";
+
+// Interface for resumable upload storage operations
+export interface IUploadStorage {
+  createUpload(upload: InsertOcrUpload): Promise<OcrUpload>;
+  getUpload(id: string): Promise<OcrUpload | undefined>;
+  advanceOffset(id: string, from: number, to: number, expiresAt: Date): Promise<OcrUpload | undefined>;
+  deleteUpload(id: string): Promise<void>;
+  deleteExpiredUploads(): Promise<OcrUpload[]>;
+}
+
+class UploadStorage implements IUploadStorage {
+  async createUpload(upload: InsertOcrUpload): Promise<OcrUpload> {
+    const [created] = await db.insert(ocrUploads).values(upload).returning();
+    return created;
+  }
+
+  async getUpload(id: string): Promise<OcrUpload | undefined> {
+    const [upload] = await db.select().from(ocrUploads).where(eq(ocrUploads.id, id));
+    return upload;
+  }
+
+  // Move the offset forward only if no other request has moved it since `from` was read
+  async advanceOffset(id: string, from: number, to: number, expiresAt: Date): Promise<OcrUpload | undefined> {
+    const [upload] = await db
+      .update(ocrUploads)
+      .set({ offset: to, expiresAt, updatedAt: new Date() })
+      .where(and(eq(ocrUploads.id, id), eq(ocrUploads.offset, from)))
+      .returning();
+    return upload;
+  }
+
+  async deleteUpload(id: string): Promise<void> {
+    await db.delete(ocrUploads).where(eq(ocrUploads.id, id));
+  }
+
+  // Remove abandoned uploads and return them so their files can be deleted
+  async deleteExpiredUploads(): Promise<OcrUpload[]> {
+    return db.delete(ocrUploads).where(lt(ocrUploads.expiresAt, new Date())).returning();
+  }
+}
+
+export const uploadStorage = new UploadStorage();
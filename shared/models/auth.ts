@@ -1,5 +1,6 @@
 import { sql } from "drizzle-orm";
-import { index, jsonb, pgTable, timestamp, varchar } from "drizzle-orm/pg-core";
+import { boolean, index, jsonb, pgTable, timestamp, varchar } from "drizzle-orm/pg-core";
+import type { OcrLanguage, OcrModelVersion, OcrReadingOrder } from "./ocr";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -21,6 +22,12 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  // Never read or write the shared OCR result cache for this user's uploads
+  ocrCacheOptOut: boolean("ocr_cache_opt_out").notNull().default(false),
+  // Default OCR settings for new uploads
+  ocrLanguages: jsonb("ocr_languages").$type<OcrLanguage[]>().notNull().default([]),
+  ocrReadingOrder: varchar("ocr_reading_order").$type<OcrReadingOrder>().notNull().default("basic"),
+  ocrModelVersion: varchar("ocr_model_version").$type<OcrModelVersion>().notNull().default("latest"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -37,5 +44,7 @@ export const payments = pgTable("payments", {
 
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+// Settings a user can change through PATCH /api/preferences
+export type UserPreferences = Pick<User, "ocrCacheOptOut" | "ocrLanguages" | "ocrReadingOrder" | "ocrModelVersion">;
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = typeof payments.$inferInsert;
@@ -0,0 +1,51 @@
+import { sql } from "drizzle-orm";
+import { index, integer, jsonb, pgTable, timestamp, uniqueIndex, varchar } from "drizzle-orm/pg-core";
+import { users } from "./auth";
+import { ocrJobs, type OcrJob } from "./ocr";
+
+// The options a document was processed with, as shown in the library
+export type LibraryDocumentOptions = Pick<
+  OcrJob,
+  "searchablePdf" | "forceOcr" | "preprocess" | "pageRanges" | "languages" | "readingOrder" | "modelVersion"
+>;
+
+// Finished OCR runs saved to a signed-in user's library. The result itself
+// stays on the job; deleting the job removes its library entry too.
+export const documents = pgTable(
+  "documents",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    jobId: varchar("job_id").notNull().references(() => ocrJobs.id, { onDelete: "cascade" }),
+    filename: varchar("filename").notNull(),
+    size: integer("size").notNull(),
+    contentHash: varchar("content_hash", { length: 64 }),
+    pageCount: integer("page_count").notNull(),
+    options: jsonb("options").$type<LibraryDocumentOptions>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_documents_user").on(table.userId, table.createdAt),
+    uniqueIndex("IDX_documents_job").on(table.jobId),
+  ]
+);
+
+export type LibraryDocument = typeof documents.$inferSelect;
+export type InsertLibraryDocument = typeof documents.$inferInsert;
+
+// Library entry returned by the /api/documents endpoints
+export interface LibraryDocumentResponse {
+  id: string;
+  jobId: string;
+  filename: string;
+  size: number;
+  contentHash: string | null;
+  pageCount: number;
+  options: LibraryDocumentOptions;
+  corrected: boolean; // the user edited the text after OCR
+  textUrl: string;
+  searchablePdfUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
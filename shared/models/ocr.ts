@@ -0,0 +1,255 @@
+import { sql } from "drizzle-orm";
+import { boolean, index, integer, jsonb, pgTable, primaryKey, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import type { OcrDocument, OcrPageMethod, OcrUnit } from "../ocr-document";
+import type { PageRange } from "../page-ranges";
+import { users } from "./auth";
+
+export const OCR_JOB_STATUSES = ["queued", "running", "succeeded", "failed"] as const;
+export type OcrJobStatus = (typeof OCR_JOB_STATUSES)[number];
+
+// "text" returns the flat string only; "json" also returns the structured OcrDocument
+export const OCR_RESULT_FORMATS = ["text", "json"] as const;
+export type OcrResultFormat = (typeof OCR_RESULT_FORMATS)[number];
+
+// Optional image clean-up before OCR, applied in this order (images only)
+export const PREPROCESS_STEPS = ["rotate", "crop", "deskew", "denoise", "binarize"] as const;
+export type PreprocessStep = (typeof PREPROCESS_STEPS)[number];
+
+// Language hints offered for OCR (codes as accepted by Azure Read). No hint
+// means the provider detects the language itself, also per line for mixed documents.
+export const OCR_LANGUAGES = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+  pl: "Polish",
+  sv: "Swedish",
+  da: "Danish",
+  fi: "Finnish",
+  no: "Norwegian",
+  cs: "Czech",
+  hu: "Hungarian",
+  tr: "Turkish",
+  la: "Latin",
+  ru: "Russian",
+  ar: "Arabic",
+  hi: "Hindi",
+  ja: "Japanese",
+  ko: "Korean",
+  "zh-Hans": "Chinese (Simplified)",
+  "zh-Hant": "Chinese (Traditional)",
+} as const;
+export type OcrLanguage = keyof typeof OCR_LANGUAGES;
+
+// "basic" reads lines left to right, top to bottom; "natural" follows columns and layout
+export const OCR_READING_ORDERS = ["basic", "natural"] as const;
+export type OcrReadingOrder = (typeof OCR_READING_ORDERS)[number];
+
+// Azure Read model versions; "latest" picks the newest generally available model
+export const OCR_MODEL_VERSIONS = ["latest", "2022-04-30", "2021-04-12"] as const;
+export type OcrModelVersion = (typeof OCR_MODEL_VERSIONS)[number];
+
+// Recognition settings chosen per upload, with a per-user default
+export interface OcrSettings {
+  languages: OcrLanguage[]; // empty for auto-detect
+  readingOrder: OcrReadingOrder;
+  modelVersion: OcrModelVersion;
+}
+
+export const DEFAULT_OCR_SETTINGS: OcrSettings = { languages: [], readingOrder: "basic", modelVersion: "latest" };
+
+// Text corrected by the user, keyed by page number. Kept next to the OCR
+// output rather than replacing it, so the original stays available.
+export type OcrCorrections = Record<string, string>;
+
+// OCR jobs table - one row per uploaded document, processed by the background worker
+export const ocrJobs = pgTable(
+  "ocr_jobs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").references(() => users.id),
+    // Set for documents extracted from a ZIP upload; batchPath is the entry's path in the archive
+    batchId: varchar("batch_id").references(() => ocrBatches.id),
+    batchPath: varchar("batch_path"),
+    filename: varchar("filename").notNull(),
+    mimeType: varchar("mime_type").notNull(),
+    size: integer("size").notNull(),
+    inputPath: varchar("input_path"),
+    format: varchar("format").$type<OcrResultFormat>().notNull().default("text"),
+    searchablePdf: boolean("searchable_pdf").notNull().default(false),
+    forceOcr: boolean("force_ocr").notNull().default(false),
+    useCache: boolean("use_cache").notNull().default(true),
+    preprocess: jsonb("preprocess").$type<PreprocessStep[]>().notNull().default([]),
+    previewDir: varchar("preview_dir"),
+    // Page renders for the result viewer; preprocessed jobs show their previews instead
+    pageImageDir: varchar("page_image_dir"),
+    // Pages of a PDF or multi-page image to process; empty for every page
+    pageRanges: jsonb("page_ranges").$type<PageRange[]>().notNull().default([]),
+    languages: jsonb("languages").$type<OcrLanguage[]>().notNull().default([]),
+    readingOrder: varchar("reading_order").$type<OcrReadingOrder>().notNull().default("basic"),
+    modelVersion: varchar("model_version").$type<OcrModelVersion>().notNull().default("latest"),
+    cached: boolean("cached").notNull().default(false),
+    // SHA-256 of the uploaded file, set by the worker
+    contentHash: varchar("content_hash", { length: 64 }),
+    searchablePdfPath: varchar("searchable_pdf_path"),
+    status: varchar("status").$type<OcrJobStatus>().notNull().default("queued"),
+    progress: integer("progress").notNull().default(0),
+    pages: integer("pages"),
+    text: text("text"),
+    document: jsonb("document").$type<OcrDocument>(),
+    corrections: jsonb("corrections").$type<OcrCorrections>().notNull().default({}),
+    correctedAt: timestamp("corrected_at"),
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [
+    index("IDX_ocr_jobs_status").on(table.status, table.createdAt),
+    index("IDX_ocr_jobs_user").on(table.userId),
+    index("IDX_ocr_jobs_batch").on(table.batchId),
+  ]
+);
+
+export type OcrJob = typeof ocrJobs.$inferSelect;
+export type InsertOcrJob = typeof ocrJobs.$inferInsert;
+
+// ZIP entries that were not queued, and why
+export interface OcrBatchSkippedEntry {
+  path: string;
+  reason: string;
+}
+
+// ZIP archives uploaded to /api/ocr. Every supported entry becomes an OCR job
+// with this batchId; the results are downloaded together as a ZIP.
+export const ocrBatches = pgTable(
+  "ocr_batches",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").references(() => users.id),
+    filename: varchar("filename").notNull(),
+    skipped: jsonb("skipped").$type<OcrBatchSkippedEntry[]>().notNull().default([]),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_ocr_batches_user").on(table.userId)]
+);
+
+export type OcrBatch = typeof ocrBatches.$inferSelect;
+export type InsertOcrBatch = typeof ocrBatches.$inferInsert;
+
+// Resumable uploads in progress. Chunks are appended at `offset` until it
+// reaches `size`, then the upload is handed to POST /api/ocr as a job.
+export const ocrUploads = pgTable(
+  "ocr_uploads",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").references(() => users.id),
+    filename: varchar("filename").notNull(),
+    mimeType: varchar("mime_type").notNull(),
+    size: integer("size").notNull(),
+    offset: integer("offset").notNull().default(0),
+    path: varchar("path").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (table) => [index("IDX_ocr_uploads_expires").on(table.expiresAt)]
+);
+
+export type OcrUpload = typeof ocrUploads.$inferSelect;
+export type InsertOcrUpload = typeof ocrUploads.$inferInsert;
+
+// Upload state returned by the /api/uploads endpoints
+export interface OcrUploadResponse {
+  uploadId: string;
+  filename: string;
+  size: number;
+  offset: number;
+  chunkSize: number; // largest chunk the server accepts per PATCH
+  expiresAt: string;
+}
+
+// OCR results keyed by the SHA-256 of the uploaded file plus the options that
+// affect recognition, so identical re-uploads don't go back to the provider
+export const ocrCache = pgTable(
+  "ocr_cache",
+  {
+    contentHash: varchar("content_hash", { length: 64 }).notNull(),
+    optionsKey: varchar("options_key").notNull(),
+    document: jsonb("document").$type<OcrDocument>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.contentHash, table.optionsKey] }),
+    index("IDX_ocr_cache_expires").on(table.expiresAt),
+    index("IDX_ocr_cache_last_used").on(table.lastUsedAt),
+  ]
+);
+
+export type OcrCacheEntry = typeof ocrCache.$inferSelect;
+export type InsertOcrCacheEntry = typeof ocrCache.$inferInsert;
+
+// One page of a finished job's result. The job's flat `text` is these pages'
+// text joined by blank lines.
+export interface OcrPageResult {
+  pageNumber: number; // in the uploaded document, so it can skip numbers when a page range was chosen
+  text: string;
+  correctedText: string | null; // the user's correction of `text`, if any
+  width: number;
+  height: number;
+  unit: OcrUnit;
+  angle: number; // text rotation in degrees
+  method: OcrPageMethod;
+  confidence: number | null; // average word confidence (0-1); null when no words were recognised
+}
+
+// Job representation returned by GET /api/jobs/:id
+export interface OcrJobResponse {
+  id: string;
+  status: OcrJobStatus;
+  progress: number;
+  filename: string;
+  pages: number | null;
+  pageMethods: OcrPageMethod[] | null;
+  pageResults: OcrPageResult[] | null;
+  text: string | null;
+  correctedText: string | null; // `text` with the user's corrections applied, once there are any
+  correctedAt: string | null;
+  document?: OcrDocument;
+  searchablePdfUrl: string | null;
+  previewUrls: string[] | null; // preprocessed page images, when preprocessing was requested
+  pageImageUrls: string[] | null; // image of each page in pageResults, for the side-by-side viewer
+  cached: boolean; // result reused from an identical earlier upload
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+// Batch state returned by POST /api/ocr for ZIP uploads and GET /api/batches/:id
+export interface OcrBatchResponse {
+  id: string;
+  filename: string;
+  status: "running" | "completed"; // completed once every job has succeeded or failed
+  jobs: { id: string; path: string; status: OcrJobStatus; progress: number; error: string | null }[];
+  skipped: OcrBatchSkippedEntry[];
+  resultsUrl: string | null;
+  createdAt: string;
+}
+
+// Events streamed by GET /api/jobs/:id/events (Server-Sent Events).
+// Every event carries the job's overall progress (0-100).
+export type OcrJobEvent = { progress: number } & (
+  | { type: "received"; filename: string; size: number }
+  | { type: "started" }
+  | { type: "submitted"; provider: string }
+  | { type: "poll"; status: string; attempt: number }
+  | { type: "page"; page: number; pageCount: number; text: string; method: OcrPageMethod }
+  | { type: "completed"; job: OcrJobResponse }
+  | { type: "failed"; error: string }
+);
@@ -0,0 +1,90 @@
+// Structured OCR output shared by the server and client.
+// Polygons are flat [x1, y1, x2, y2, x3, y3, x4, y4] lists, clockwise from the
+// top-left corner, in the page's unit. Text-only sources have empty polygons.
+
+export type OcrUnit = "pixel" | "inch";
+
+// How a page's text was obtained: OCR (billed) or the PDF's embedded text layer (free)
+export type OcrPageMethod = "ocr" | "text-layer";
+
+export interface OcrWord {
+  text: string;
+  polygon: number[];
+  confidence: number; // 0-1
+}
+
+export interface OcrLine {
+  text: string;
+  polygon: number[];
+  words: OcrWord[];
+}
+
+export interface OcrPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  unit: OcrUnit;
+  angle: number; // Text rotation in degrees
+  method?: OcrPageMethod;
+  lines: OcrLine[];
+}
+
+export interface OcrDocument {
+  provider: string;
+  pages: OcrPage[];
+}
+
+export function getPageText(page: OcrPage): string {
+  return page.lines.map((line) => line.text).join("\n");
+}
+
+export function getDocumentText(document: OcrDocument): string {
+  return document.pages.map(getPageText).join("\n\n").trim();
+}
+
+// Words below this confidence are flagged for review unless the user picks another threshold
+export const DEFAULT_LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+// Only words with a position were recognised; text-only sources report no real confidence
+function isRecognizedWord(word: OcrWord): boolean {
+  return word.polygon.length > 0;
+}
+
+export function isLowConfidence(word: OcrWord, threshold: number): boolean {
+  return isRecognizedWord(word) && word.confidence < threshold;
+}
+
+// Average confidence of a page's recognised words, or null when it has none
+export function getPageConfidence(page: OcrPage): number | null {
+  const words = page.lines.flatMap((line) => line.words).filter(isRecognizedWord);
+  if (words.length === 0) return null;
+  return words.reduce((sum, word) => sum + word.confidence, 0) / words.length;
+}
+
+export function rectToPolygon(left: number, top: number, width: number, height: number): number[] {
+  const right = left + width;
+  const bottom = top + height;
+  return [left, top, right, top, right, bottom, left, bottom];
+}
+
+// Document for text that came without geometry (plain text uploads, embedded PDF text)
+export function createTextDocument(pageTexts: string[], provider: string): OcrDocument {
+  return {
+    provider,
+    pages: pageTexts.map((text, i) => ({
+      pageNumber: i + 1,
+      width: 0,
+      height: 0,
+      unit: "pixel",
+      angle: 0,
+      lines: text.split(/\r?\n/).map((line) => ({
+        text: line,
+        polygon: [],
+        words: line
+          .split(/\s+/)
+          .filter(Boolean)
+          .map((word) => ({ text: word, polygon: [], confidence: 1 })),
+      })),
+    })),
+  };
+}
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatPageRanges, parsePageRanges, resolvePageRanges, toPageRanges } from "./page-ranges";
+
+test("single pages and closed ranges", () => {
+  assert.deepEqual(parsePageRanges("3"), [{ start: 3, end: 3 }]);
+  assert.deepEqual(parsePageRanges(" 1 - 3 , 7 "), [
+    { start: 1, end: 3 },
+    { start: 7, end: 7 },
+  ]);
+});
+
+test("an open range runs to the last page", () => {
+  assert.deepEqual(parsePageRanges("10-"), [{ start: 10, end: null }]);
+  assert.deepEqual(parsePageRanges("2,10-"), [
+    { start: 2, end: 2 },
+    { start: 10, end: null },
+  ]);
+  assert.deepEqual(resolvePageRanges(parsePageRanges("10-")!, 12), [10, 11, 12]);
+});
+
+test("an empty selection or one starting at page 1 and left open selects every page", () => {
+  assert.deepEqual(parsePageRanges(""), []);
+  assert.deepEqual(parsePageRanges(" , "), []);
+  assert.deepEqual(parsePageRanges("1-"), []);
+  assert.deepEqual(parsePageRanges("1-3,2-"), []);
+  assert.deepEqual(resolvePageRanges([], 3), [1, 2, 3]);
+});
+
+test("overlapping, adjacent and unsorted ranges are merged", () => {
+  assert.deepEqual(parsePageRanges("5-8,1-3,2-6"), [{ start: 1, end: 8 }]);
+  assert.deepEqual(parsePageRanges("1-3,4,6"), [
+    { start: 1, end: 4 },
+    { start: 6, end: 6 },
+  ]);
+  assert.deepEqual(parsePageRanges("4-6,5"), [{ start: 4, end: 6 }]);
+  assert.deepEqual(parsePageRanges("12,10-,3,11-14"), [
+    { start: 3, end: 3 },
+    { start: 10, end: null },
+  ]);
+  assert.deepEqual(parsePageRanges("2-4,3-"), [{ start: 2, end: null }]);
+});
+
+test("invalid selections are rejected", () => {
+  for (const value of ["0", "0-3", "5-2", "-3", "1-3-5", "a", "1.5", "3,x", "1--2"]) {
+    assert.equal(parsePageRanges(value), null, JSON.stringify(value));
+  }
+});
+
+test("pages past the end of the document are left out", () => {
+  assert.deepEqual(resolvePageRanges(parsePageRanges("3-8")!, 5), [3, 4, 5]);
+  assert.deepEqual(resolvePageRanges(parsePageRanges("2,9-12,20-")!, 10), [2, 9, 10]);
+  assert.deepEqual(resolvePageRanges(parsePageRanges("7-")!, 5), []);
+  assert.deepEqual(resolvePageRanges(parsePageRanges("6")!, 5), []);
+});
+
+test("ranges format back to a selection that parses to the same ranges", () => {
+  for (const value of ["3", "1-3,7", "2,10-", "4-6,9-12"]) {
+    assert.equal(formatPageRanges(parsePageRanges(value)!), value);
+  }
+  assert.equal(formatPageRanges(parsePageRanges("5-8,1-3,2-6")!), "1-8");
+});
+
+test("page numbers collapse into ranges", () => {
+  assert.equal(formatPageRanges(toPageRanges([1, 2, 3, 7, 9, 10])), "1-3,7,9-10");
+  assert.deepEqual(toPageRanges([]), []);
+});
@@ -0,0 +1,67 @@
+// Page selections such as "1-3,7,10-" shared by the server and client.
+// Page numbers are 1-based; an open range ("10-") runs to the last page.
+
+export interface PageRange {
+  start: number;
+  end: number | null; // null for an open range
+}
+
+// Parse a page selection into sorted, merged ranges. Returns [] for an empty
+// selection or one covering every page ("1-"), and null when it is invalid.
+export function parsePageRanges(value: string): PageRange[] | null {
+  const ranges: PageRange[] = [];
+  for (const part of value.split(",").map((item) => item.trim()).filter(Boolean)) {
+    const match = /^(\d+)\s*(?:(-)\s*(\d*))?$/.exec(part);
+    if (!match) return null;
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : null) : start;
+    if (start < 1 || (end !== null && end < start)) return null;
+    ranges.push({ start, end });
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: PageRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && (last.end === null || range.start <= last.end + 1)) {
+      last.end = last.end === null || range.end === null ? null : Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged.length === 1 && merged[0].start === 1 && merged[0].end === null ? [] : merged;
+}
+
+export function formatPageRanges(ranges: PageRange[]): string {
+  return ranges
+    .map(({ start, end }) => (end === start ? String(start) : `${start}-${end ?? ""}`))
+    .join(",");
+}
+
+// Sorted page numbers of a pageCount-page document that fall in the ranges
+// (every page when there are none)
+export function resolvePageRanges(ranges: PageRange[], pageCount: number): number[] {
+  const pageNumbers: number[] = [];
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    if (ranges.length === 0 || ranges.some(({ start, end }) => pageNumber >= start && (end === null || pageNumber <= end))) {
+      pageNumbers.push(pageNumber);
+    }
+  }
+  return pageNumbers;
+}
+
+// Collapse sorted page numbers into ranges: [1, 2, 3, 7] -> 1-3,7
+export function toPageRanges(pageNumbers: number[]): PageRange[] {
+  const ranges: PageRange[] = [];
+  for (const pageNumber of pageNumbers) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === pageNumber - 1) {
+      last.end = pageNumber;
+    } else {
+      ranges.push({ start: pageNumber, end: pageNumber });
+    }
+  }
+  return ranges;
+}
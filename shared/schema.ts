@@ -1 +1,3 @@
 export * from "./models/auth";
+export * from "./models/ocr";
+export * from "./models/library";